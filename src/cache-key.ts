@@ -0,0 +1,132 @@
+import {
+  Query,
+  QueryExpression,
+  FindRecord,
+  FindRecords,
+  FindRelatedRecord,
+  FindRelatedRecords,
+  FilterSpecifier,
+  RecordIdentity,
+  serializeRecordIdentity
+} from '@orbit/data';
+
+import {
+  ExpressionHandlerRegistry,
+  defaultExpressionHandlers
+} from './expression-handlers';
+
+/**
+ * Serialize a query expression into a key which is the same for semantically
+ * equivalent expressions:
+ *
+ * - object keys are sorted
+ * - filter specifiers are sorted, as they are all applied together
+ * - record identities in `records` lists are sorted
+ * - sort specifiers keep their order, as it is significant
+ *
+ * The key of each op is provided by its expression handler.
+ */
+export function queryExpressionCacheKey(
+  expression: QueryExpression,
+  handlers: ExpressionHandlerRegistry = defaultExpressionHandlers
+): string {
+  return handlers.cacheKey(expression);
+}
+
+export function findRecordCacheKey({ record }: FindRecord): string {
+  return serializeRecordIdentity(record);
+}
+
+export function findRelatedRecordCacheKey({
+  record,
+  relationship
+}: FindRelatedRecord): string {
+  return `${serializeRecordIdentity(record)}:${relationship}`;
+}
+
+export function findRecordsCacheKey({
+  type,
+  records,
+  filter,
+  sort,
+  page
+}: FindRecords): string {
+  return `findRecords:${stableStringify({
+    type,
+    records: records && serializeRecordIdentities(records),
+    filter: filter && serializeFilter(filter),
+    sort,
+    page
+  })}`;
+}
+
+export function findRelatedRecordsCacheKey({
+  record,
+  relationship,
+  filter,
+  sort,
+  page
+}: FindRelatedRecords): string {
+  return `findRelatedRecords:${stableStringify({
+    record: serializeRecordIdentity(record),
+    relationship,
+    filter: filter && serializeFilter(filter),
+    sort,
+    page
+  })}`;
+}
+
+/**
+ * Serialize a query into a key which is the same for queries with equivalent
+ * expressions and equal options.
+ */
+export function queryCacheKey(
+  query: Query,
+  handlers: ExpressionHandlerRegistry = defaultExpressionHandlers
+): string {
+  return stableStringify({
+    expressions: query.expressions.map(expression =>
+      handlers.cacheKey(expression)
+    ),
+    options: query.options
+  });
+}
+
+/**
+ * Serialize a value to JSON with object keys sorted. Keys with `undefined`
+ * values are omitted.
+ */
+export function stableStringify(value: any): string {
+  if (Array.isArray(value)) {
+    return `[${value.map(item => stableStringify(item)).join(',')}]`;
+  } else if (value && typeof value === 'object') {
+    const members = Object.keys(value)
+      .filter(key => value[key] !== undefined)
+      .sort()
+      .map(key => `${JSON.stringify(key)}:${stableStringify(value[key])}`);
+    return `{${members.join(',')}}`;
+  } else if (value === undefined) {
+    return 'null';
+  }
+  return JSON.stringify(value);
+}
+
+function serializeRecordIdentities(records: RecordIdentity[]): string[] {
+  return records.map(record => serializeRecordIdentity(record)).sort();
+}
+
+function serializeFilter(filter: FilterSpecifier[]): string[] {
+  return filter
+    .map((specifier: any) => {
+      const { record, records } = specifier;
+
+      return stableStringify({
+        ...specifier,
+        record: Array.isArray(record)
+          ? serializeRecordIdentities(record)
+          : record && serializeRecordIdentity(record),
+        records: records && serializeRecordIdentities(records)
+      });
+    })
+    .sort();
+}
@@ -1,6 +1,10 @@
 import {
   Query,
-  serializeRecordIdentity,
+  Transform,
+  Record,
+  RecordIdentity,
+  RecordOperation,
+  equalRecordIdentities,
   QueryExpression,
   FindRecord,
   FindRecords,
@@ -8,35 +12,222 @@ import {
   FindRelatedRecords
 } from '@orbit/data';
 import { SyncRecordCache } from '@orbit/record-cache';
+import { Dict } from '@orbit/utils';
+
+import {
+  CacheEntry,
+  CacheStorage,
+  CacheValidators,
+  MemoryCacheStorage
+} from './cache-storage';
+import {
+  ExpressionHandlerRegistry,
+  defaultExpressionHandlers
+} from './expression-handlers';
 
 export interface CachePolicyOptions {
   enabled?: boolean;
+
+  /**
+   * Default time (in ms) after which a loaded expression expires.
+   */
   expireIn?: number;
+
+  /**
+   * Expiration times keyed by record type. For related record expressions the
+   * type of the related model is used when it can be resolved from the schema.
+   */
+  expireInByType?: Dict<number>;
+
+  /**
+   * Expiration times keyed by query expression op.
+   */
+  expireInByOp?: Dict<number>;
+
+  /**
+   * Time (in ms) after which a loaded expression is considered stale. Stale
+   * expressions are still served from the cache but should be revalidated in
+   * the background until they expire.
+   */
+  staleIn?: number;
+
+  /**
+   * Maximum number of loaded expressions to keep. Least recently used
+   * expressions are evicted first.
+   */
+  maxEntries?: number;
+
+  /**
+   * Storage used to persist loaded expressions between sessions. Defaults to
+   * an in-memory storage.
+   */
+  storage?: CacheStorage;
+
+  /**
+   * Handlers providing the cache key and cache presence check of each query
+   * expression op. Defaults to the built-in ops.
+   */
+  expressionHandlers?: ExpressionHandlerRegistry;
 }
 
 export class CachePolicy {
   enabled = true;
   expireIn?: number;
+  expireInByType: Dict<number> = {};
+  expireInByOp: Dict<number> = {};
+  staleIn?: number;
+  maxEntries?: number;
+  storage: CacheStorage;
+  expressionHandlers: ExpressionHandlerRegistry;
 
   private _cache?: SyncRecordCache;
-  private _loadedExpressions = new Map<string, number>();
+  private _loadedExpressions = new Map<string, CacheEntry>();
+  private _longestQueryExpireIn?: number;
 
   constructor(options?: CachePolicyOptions) {
     if (options) {
       this.enabled = options.enabled !== false;
       this.expireIn = options.expireIn;
+      this.staleIn = options.staleIn;
+      this.maxEntries = options.maxEntries;
+
+      if (options.expireInByType) {
+        this.expireInByType = options.expireInByType;
+      }
+      if (options.expireInByOp) {
+        this.expireInByOp = options.expireInByOp;
+      }
     }
+    this.storage = (options && options.storage) || new MemoryCacheStorage();
+    this.expressionHandlers =
+      (options && options.expressionHandlers) || defaultExpressionHandlers;
   }
 
-  load(query: Query): void {
-    if (this.enabled) {
-      for (let expression of query.expressions) {
-        this._loadedExpressions.set(
-          this.queryExpressionToCacheKey(expression),
-          Date.now()
-        );
+  /**
+   * Mark the expressions of a query as loaded. When the `result` of the pull
+   * is provided, the returned records are considered loaded as well.
+   *
+   * Validators found in the `validators` option of the result transforms are
+   * stored to allow later conditional requests.
+   *
+   * Relationships sideloaded through the `include` query option (either
+   * top-level or source specific) are marked as loaded for every returned
+   * record.
+   */
+  load(query: Query, result?: Transform[]): Promise<void> {
+    if (!this.enabled) {
+      return Promise.resolve();
+    }
+
+    const loadedAt = Date.now();
+    const records = result ? recordsInTransforms(result) : [];
+    const identities = result
+      ? records.map(({ type, id }) => ({ type, id }))
+      : undefined;
+    const include = includePaths(query.options);
+    const validators = result ? validatorsInTransforms(result) : undefined;
+
+    for (let expression of query.expressions) {
+      this.markLoaded(expression, loadedAt, identities, validators);
+
+      if (include.length) {
+        const included = this.queryExpressionRecords(expression, records);
+
+        for (let path of include) {
+          this.loadIncludePath(included, path.split('.'), records, loadedAt);
+        }
+      }
+    }
+    this.sweep();
+    this.evict();
+
+    return this.persist();
+  }
+
+  /**
+   * Refresh the load time of the already loaded expressions of a query, e.g.
+   * after the target answered a conditional request with "not modified".
+   */
+  touch(query: Query): Promise<void> {
+    if (!this.enabled) {
+      return Promise.resolve();
+    }
+
+    const loadedAt = Date.now();
+    for (let expression of query.expressions) {
+      const cacheKey = this.queryExpressionToCacheKey(expression);
+      const entry = this._loadedExpressions.get(cacheKey);
+
+      if (entry) {
+        this._loadedExpressions.delete(cacheKey);
+        this._loadedExpressions.set(cacheKey, { ...entry, loadedAt });
+      }
+    }
+
+    return this.persist();
+  }
+
+  /**
+   * Validators stored for a single expression query. Expired entries keep
+   * their validators so that the target can still answer "not modified".
+   */
+  validatorsFor(query: Query): CacheValidators | undefined {
+    if (!this.enabled || query.expressions.length !== 1) {
+      return undefined;
+    }
+
+    const entry = this._loadedExpressions.get(
+      this.queryExpressionToCacheKey(query.expressions[0])
+    );
+
+    return entry && entry.validators;
+  }
+
+  /**
+   * Number of loaded expressions currently kept in memory.
+   */
+  get size(): number {
+    return this._loadedExpressions.size;
+  }
+
+  /**
+   * Remove every expired expression, except the ones which the longest
+   * `expireIn` query option seen so far still allows. Returns the number of
+   * removed entries. Expired expressions are swept on every load.
+   */
+  sweep(): number {
+    let removed = 0;
+
+    for (let [cacheKey, entry] of this._loadedExpressions) {
+      if (this.canSweep(entry)) {
+        this._loadedExpressions.delete(cacheKey);
+        removed++;
       }
     }
+
+    return removed;
+  }
+
+  /**
+   * Rehydrate loaded expressions from `storage`, skipping the ones which
+   * expired since they were persisted.
+   */
+  async restore(): Promise<void> {
+    if (!this.enabled) {
+      return;
+    }
+
+    const entries = await this.storage.getEntries();
+    for (let [cacheKey, entry] of entries) {
+      if (!this.isExpired(entry)) {
+        this._loadedExpressions.set(cacheKey, entry);
+      }
+    }
+    this.evict();
+  }
+
+  persist(): Promise<void> {
+    return this.storage.setEntries(Array.from(this._loadedExpressions));
   }
 
   has(query: Query): boolean {
@@ -44,8 +235,17 @@ export class CachePolicy {
       return false;
     }
 
+    const expireIn = query.options && query.options.expireIn;
+    if (
+      typeof expireIn === 'number' &&
+      (this._longestQueryExpireIn === undefined ||
+        expireIn > this._longestQueryExpireIn)
+    ) {
+      this._longestQueryExpireIn = expireIn;
+    }
+
     for (let expression of query.expressions) {
-      if (!this.queryExpressionIsLoaded(expression)) {
+      if (!this.queryExpressionIsLoaded(expression, query.options)) {
         return false;
       }
     }
@@ -53,69 +253,654 @@ export class CachePolicy {
     return true;
   }
 
-  clear() {
+  /**
+   * Is any expression of a loaded query older than `staleIn`? The `staleIn`
+   * policy option can be overridden in the query options.
+   */
+  isStale(query: Query): boolean {
+    if (!this.enabled) {
+      return false;
+    }
+
+    const options: any = query.options || {};
+    const staleIn =
+      options.staleIn !== undefined ? options.staleIn : this.staleIn;
+
+    if (staleIn === undefined) {
+      return false;
+    }
+
+    return query.expressions.some(expression => {
+      const entry = this._loadedExpressions.get(
+        this.queryExpressionToCacheKey(expression)
+      );
+
+      return entry !== undefined && Date.now() - entry.loadedAt > staleIn;
+    });
+  }
+
+  /**
+   * When was an expression last loaded? `undefined` if it is not tracked.
+   */
+  loadedAt(expression: QueryExpression): number | undefined {
+    const entry = this._loadedExpressions.get(
+      this.queryExpressionToCacheKey(expression)
+    );
+
+    return entry && entry.loadedAt;
+  }
+
+  /**
+   * Resolve the expiration time of a query expression. The first defined
+   * value wins, in order:
+   *
+   * 1. `expireIn` from the query options
+   * 2. `expireInByType` for the expression's record type
+   * 3. `expireInByOp` for the expression's op
+   * 4. `expireIn` from the policy options
+   */
+  expireInFor(expression: QueryExpression, options?: any): number | undefined {
+    if (options && options.expireIn !== undefined) {
+      return options.expireIn;
+    }
+
+    const type = this.queryExpressionType(expression);
+    if (type && this.expireInByType[type] !== undefined) {
+      return this.expireInByType[type];
+    }
+
+    if (this.expireInByOp[expression.op] !== undefined) {
+      return this.expireInByOp[expression.op];
+    }
+
+    return this.expireIn;
+  }
+
+  /**
+   * Invalidate loaded expressions affected by the operations of a transform:
+   *
+   * - `addRecord` invalidates lists of the record type
+   * - `removeRecord` invalidates the record, lists of its type and related
+   *   expressions owned by or pointing to the record type
+   * - `updateRecord` and `replaceAttribute` invalidate lists of the record
+   *   type filtered or sorted by the fields they change
+   * - `updateRecord` and `replaceKey` invalidate the record when its keys
+   *   change
+   * - relationship changes invalidate the related expressions of the
+   *   relationship and of its inverse
+   */
+  observeTransform(transform: Transform): Promise<void> {
+    let invalidated = false;
+
+    for (let operation of transform.operations as RecordOperation[]) {
+      if (this.removeEntries(this.affectedByOperation(operation))) {
+        invalidated = true;
+      }
+    }
+
+    return invalidated ? this.persist() : Promise.resolve();
+  }
+
+  /**
+   * Invalidate a record: its `findRecord` expression, the related expressions
+   * it owns and the loaded expressions which returned or subsume it.
+   */
+  invalidateRecord(record: RecordIdentity): Promise<void> {
+    return this.invalidateWhere(
+      (expression, entry) =>
+        this.isRecord(expression, record) ||
+        this.isRelatedTo(expression, record) ||
+        isFullList(expression, record.type) ||
+        (!!entry.records &&
+          entry.records.some(loaded => equalRecordIdentities(loaded, record)))
+    );
+  }
+
+  /**
+   * Invalidate every loaded expression for records of a type, including
+   * related expressions owned by or pointing to that type.
+   */
+  invalidateType(type: string): Promise<void> {
+    return this.invalidateWhere(
+      expression =>
+        this.queryExpressionType(expression) === type ||
+        this.isRelatedOfType(expression, type) ||
+        ((expression.op === 'findRelatedRecord' ||
+          expression.op === 'findRelatedRecords') &&
+          (expression as FindRelatedRecord).record.type === type)
+    );
+  }
+
+  /**
+   * Invalidate the related expressions of a record relationship.
+   */
+  invalidateRelationship(
+    record: RecordIdentity,
+    relationship: string
+  ): Promise<void> {
+    return this.invalidateWhere(expression =>
+      this.isRelatedTo(expression, record, relationship)
+    );
+  }
+
+  /**
+   * Invalidate every loaded expression matching a predicate.
+   */
+  invalidateWhere(
+    predicate: (expression: QueryExpression, entry: CacheEntry) => boolean
+  ): Promise<void> {
+    return this.removeEntries(predicate) ? this.persist() : Promise.resolve();
+  }
+
+  /**
+   * Forget loaded expressions in memory, keeping the persisted ones.
+   */
+  reset() {
     this._loadedExpressions.clear();
   }
 
+  clear(): Promise<void> {
+    this.reset();
+    return this.storage.clear();
+  }
+
   setCache(cache: SyncRecordCache) {
     this._cache = cache;
   }
 
-  private queryExpressionIsLoaded(expression: QueryExpression) {
+  private queryExpressionIsLoaded(expression: QueryExpression, options?: any) {
+    const cacheKey = this.queryExpressionToCacheKey(expression);
+    const entry = this._loadedExpressions.get(cacheKey);
+
+    if (entry) {
+      // Entries past the policy expiration are kept until swept since a
+      // query may allow a longer `expireIn`.
+      this._loadedExpressions.delete(cacheKey);
+      this._loadedExpressions.set(cacheKey, entry);
+      return !this.isExpired(entry, options);
+    }
+
+    return (
+      this.isSubsumed(expression, options) ||
+      (!!this._cache &&
+        this.expressionHandlers.inCache(expression, this._cache))
+    );
+  }
+
+  /**
+   * A loaded list of every record of a type subsumes filtered, sorted or
+   * paged lists of the same type as well as single records of that type. A
+   * loaded expression also subsumes single records it returned.
+   */
+  private isSubsumed(expression: QueryExpression, options?: any) {
+    let type: string | undefined;
+    let record: RecordIdentity | undefined;
+
+    if (expression.op === 'findRecords') {
+      type = (expression as FindRecords).type;
+    } else if (expression.op === 'findRecord') {
+      record = (expression as FindRecord).record;
+      type = record.type;
+    }
+
+    if (!type) {
+      return false;
+    }
+
+    for (let entry of this._loadedExpressions.values()) {
+      if (this.isExpired(entry, options)) {
+        continue;
+      }
+      if (isFullList(entry.expression, type)) {
+        return true;
+      }
+      if (
+        record &&
+        entry.records &&
+        entry.records.some(loaded =>
+          equalRecordIdentities(loaded, record as RecordIdentity)
+        )
+      ) {
+        return true;
+      }
+    }
+
+    return false;
+  }
+
+  private markLoaded(
+    expression: QueryExpression,
+    loadedAt: number,
+    records?: RecordIdentity[],
+    validators?: CacheValidators
+  ) {
     const cacheKey = this.queryExpressionToCacheKey(expression);
-    const loadedAt = this._loadedExpressions.get(cacheKey);
 
-    if (loadedAt) {
-      const age = Date.now() - loadedAt;
-      if (this.expireIn && age > this.expireIn) {
+    this._loadedExpressions.delete(cacheKey);
+    this._loadedExpressions.set(cacheKey, {
+      expression,
+      loadedAt,
+      records,
+      validators
+    });
+  }
+
+  private queryExpressionRecords(
+    expression: QueryExpression,
+    records: Record[]
+  ): RecordIdentity[] {
+    switch (expression.op) {
+      case 'findRecord':
+        return [(expression as FindRecord).record];
+      case 'findRecords': {
+        const type = this.queryExpressionType(expression);
+        return records.filter(record => record.type === type);
+      }
+      case 'findRelatedRecord':
+      case 'findRelatedRecords': {
+        const { record, relationship } = expression as FindRelatedRecord;
+        return toIdentities(this.relatedRecords(record, relationship, records));
+      }
+      default:
+        return [];
+    }
+  }
+
+  private loadIncludePath(
+    records: RecordIdentity[],
+    path: string[],
+    result: Record[],
+    loadedAt: number
+  ) {
+    const [relationship, ...rest] = path;
+    const included: RecordIdentity[] = [];
+
+    for (let { type, id } of records) {
+      const record = { type, id };
+      const related = this.relatedRecords(record, relationship, result);
+
+      if (related === undefined) {
+        continue;
+      }
+
+      const op = this.isHasMany(type, relationship, related)
+        ? 'findRelatedRecords'
+        : 'findRelatedRecord';
+      this.markLoaded(
+        { op, record, relationship } as QueryExpression,
+        loadedAt
+      );
+      included.push(...toIdentities(related));
+    }
+
+    if (rest.length && included.length) {
+      this.loadIncludePath(included, rest, result, loadedAt);
+    }
+  }
+
+  /**
+   * Related records of a relationship, read from the pull result first and
+   * from the cache otherwise. Returns `undefined` when unknown.
+   */
+  private relatedRecords(
+    record: RecordIdentity,
+    relationship: string,
+    result: Record[]
+  ): RecordIdentity[] | RecordIdentity | null | undefined {
+    const returned = result.find(r => equalRecordIdentities(r, record));
+    const data =
+      returned &&
+      returned.relationships &&
+      returned.relationships[relationship] &&
+      returned.relationships[relationship].data;
+
+    if (data !== undefined) {
+      return data;
+    } else if (!this._cache) {
+      return undefined;
+    } else if (this.isHasMany(record.type, relationship)) {
+      return this._cache.getRelatedRecordsSync(record, relationship);
+    }
+    return this._cache.getRelatedRecordSync(record, relationship);
+  }
+
+  private isHasMany(type: string, relationship: string, related?: any) {
+    const model = this._cache && this._cache.schema.models[type];
+    const definition =
+      model && model.relationships && model.relationships[relationship];
+
+    if (definition) {
+      return definition.type === 'hasMany';
+    }
+    return Array.isArray(related);
+  }
+
+  private evict() {
+    if (this.maxEntries === undefined) {
+      return;
+    }
+
+    for (let cacheKey of this._loadedExpressions.keys()) {
+      if (this._loadedExpressions.size <= this.maxEntries) {
+        break;
+      }
+      this._loadedExpressions.delete(cacheKey);
+    }
+  }
+
+  private removeEntries(
+    predicate: (expression: QueryExpression, entry: CacheEntry) => boolean
+  ): boolean {
+    let removed = false;
+
+    for (let [cacheKey, entry] of this._loadedExpressions) {
+      if (predicate(entry.expression, entry)) {
         this._loadedExpressions.delete(cacheKey);
-        return false;
+        removed = true;
       }
-      return true;
     }
 
-    return this.hasQueryExpressionInCache(expression);
+    return removed;
+  }
+
+  private affectedByOperation(
+    operation: RecordOperation
+  ): (expression: QueryExpression) => boolean {
+    const { record } = operation;
+
+    switch (operation.op) {
+      case 'addRecord': {
+        const relationships = Object.keys(operation.record.relationships || {});
+        return expression =>
+          this.isListOfType(expression, record.type) ||
+          relationships.some(relationship =>
+            this.isInverseOf(expression, record.type, relationship)
+          );
+      }
+      case 'removeRecord':
+        return expression =>
+          this.isRecord(expression, record) ||
+          this.isListOfType(expression, record.type) ||
+          this.isRelatedTo(expression, record) ||
+          this.isRelatedOfType(expression, record.type);
+      case 'updateRecord': {
+        const updated = operation.record;
+        const attributes = Object.keys(updated.attributes || {});
+        const relationships = Object.keys(updated.relationships || {});
+        const hasKeys = Object.keys(updated.keys || {}).length > 0;
+        return expression =>
+          (hasKeys && this.isRecord(expression, record)) ||
+          this.isListOn(expression, record.type, attributes, relationships) ||
+          relationships.some(
+            relationship =>
+              this.isRelatedTo(expression, record, relationship) ||
+              this.isInverseOf(expression, record.type, relationship)
+          );
+      }
+      case 'replaceAttribute': {
+        const { attribute } = operation;
+        return expression =>
+          this.isListOn(expression, record.type, [attribute], []);
+      }
+      case 'replaceKey':
+        return expression => this.isRecord(expression, record);
+      case 'replaceRelatedRecord':
+      case 'replaceRelatedRecords':
+      case 'addToRelatedRecords':
+      case 'removeFromRelatedRecords': {
+        const { relationship } = operation;
+        return expression =>
+          this.isRelatedTo(expression, record, relationship) ||
+          this.isInverseOf(expression, record.type, relationship) ||
+          this.isListOn(expression, record.type, [], [relationship]);
+      }
+      default:
+        return () => false;
+    }
+  }
+
+  private isRecord(expression: QueryExpression, record: RecordIdentity) {
+    return (
+      expression.op === 'findRecord' &&
+      equalRecordIdentities((expression as FindRecord).record, record)
+    );
+  }
+
+  private isListOfType(expression: QueryExpression, type: string) {
+    return (
+      expression.op === 'findRecords' &&
+      this.queryExpressionType(expression) === type
+    );
   }
 
-  private hasQueryExpressionInCache(expression: QueryExpression) {
-    if (!this._cache) {
+  /**
+   * Is an expression a list of records of `type` filtered or sorted by one of
+   * the given attributes or relationships?
+   */
+  private isListOn(
+    expression: QueryExpression,
+    type: string,
+    attributes: string[],
+    relationships: string[]
+  ) {
+    if (!this.isListOfType(expression, type)) {
       return false;
-    } else if (expression.op === 'findRecord') {
-      const { record } = expression as FindRecord;
+    }
 
-      return this._cache.getRecordSync(record) !== undefined;
-    } else if (expression.op === 'findRecords') {
-      const { records } = expression as FindRecords;
+    const { filter = [], sort = [] } = expression as FindRecords;
 
-      if (records) {
-        return this._cache.getRecordsSync(records).length === records.length;
-      }
-    } else if (expression.op === 'findRelatedRecord') {
-      const { record, relationship } = expression as FindRelatedRecord;
+    return (
+      filter.some(
+        (specifier: any) =>
+          attributes.indexOf(specifier.attribute) !== -1 ||
+          relationships.indexOf(specifier.relation) !== -1
+      ) ||
+      sort.some(
+        (specifier: any) => attributes.indexOf(specifier.attribute) !== -1
+      )
+    );
+  }
+
+  /**
+   * Is an expression a related expression for the inverse of a relationship
+   * of `type`, as declared in the schema?
+   */
+  private isInverseOf(
+    expression: QueryExpression,
+    type: string,
+    relationship: string
+  ) {
+    const inverse = this.inverseRelationship(type, relationship);
+
+    if (
+      inverse &&
+      (expression.op === 'findRelatedRecord' ||
+        expression.op === 'findRelatedRecords')
+    ) {
+      const related = expression as FindRelatedRecord | FindRelatedRecords;
 
       return (
-        this._cache.getRelatedRecordSync(record, relationship) !== undefined
+        related.record.type === this.relatedType(type, relationship) &&
+        related.relationship === inverse
       );
-    } else if (expression.op === 'findRelatedRecords') {
-      const { record, relationship } = expression as FindRelatedRecords;
+    }
+    return false;
+  }
+
+  private isRelatedTo(
+    expression: QueryExpression,
+    record: RecordIdentity,
+    relationship?: string
+  ) {
+    if (
+      expression.op === 'findRelatedRecord' ||
+      expression.op === 'findRelatedRecords'
+    ) {
+      const related = expression as FindRelatedRecord | FindRelatedRecords;
 
       return (
-        this._cache.getRelatedRecordsSync(record, relationship) !== undefined
+        equalRecordIdentities(related.record, record) &&
+        (!relationship || related.relationship === relationship)
       );
     }
+    return false;
+  }
+
+  private isRelatedOfType(expression: QueryExpression, type: string) {
+    if (
+      expression.op === 'findRelatedRecord' ||
+      expression.op === 'findRelatedRecords'
+    ) {
+      const { record, relationship } = expression as FindRelatedRecord;
 
+      return this.relatedType(record.type, relationship) === type;
+    }
     return false;
   }
 
-  private queryExpressionToCacheKey(expression: QueryExpression) {
+  private isExpired(entry: CacheEntry, options?: any) {
+    const expireIn = this.expireInFor(entry.expression, options);
+    const age = Date.now() - entry.loadedAt;
+    return expireIn !== undefined && age > expireIn;
+  }
+
+  private canSweep(entry: CacheEntry) {
+    const expireIn = this._longestQueryExpireIn;
+
+    return (
+      this.isExpired(entry) &&
+      (expireIn === undefined || this.isExpired(entry, { expireIn }))
+    );
+  }
+
+  private queryExpressionType(expression: QueryExpression) {
     switch (expression.op) {
       case 'findRecord':
-        return serializeRecordIdentity((expression as FindRecord).record);
+        return (expression as FindRecord).record.type;
+      case 'findRecords': {
+        const { type, records } = expression as FindRecords;
+        return (
+          type || (records && records.length ? records[0].type : undefined)
+        );
+      }
       case 'findRelatedRecord':
-        let { record, relationship } = expression as FindRelatedRecord;
-        return `${serializeRecordIdentity(record)}:${relationship}`;
-      default:
-        return JSON.stringify(expression);
+      case 'findRelatedRecords': {
+        const { record, relationship } = expression as FindRelatedRecord;
+        return this.relatedType(record.type, relationship) || record.type;
+      }
+    }
+  }
+
+  private relatedType(type: string, relationship: string): string | undefined {
+    const model = this._cache && this._cache.schema.models[type];
+
+    if (model) {
+      const definition =
+        model.relationships && model.relationships[relationship];
+
+      if (definition && typeof definition.model === 'string') {
+        return definition.model;
+      }
+    }
+  }
+
+  private inverseRelationship(
+    type: string,
+    relationship: string
+  ): string | undefined {
+    const model = this._cache && this._cache.schema.models[type];
+
+    if (model) {
+      const definition =
+        model.relationships && model.relationships[relationship];
+
+      if (definition && typeof definition.inverse === 'string') {
+        return definition.inverse;
+      }
+    }
+  }
+
+  private queryExpressionToCacheKey(expression: QueryExpression) {
+    return this.expressionHandlers.cacheKey(expression);
+  }
+}
+
+function isFullList(expression: QueryExpression, type: string) {
+  if (expression.op !== 'findRecords') {
+    return false;
+  }
+
+  const { type: listType, records, filter, page } = expression as FindRecords;
+
+  return listType === type && !records && !(filter && filter.length) && !page;
+}
+
+function recordsInTransforms(transforms: Transform[]): Record[] {
+  const records: Record[] = [];
+
+  for (let transform of transforms) {
+    for (let operation of transform.operations as RecordOperation[]) {
+      if (operation.op === 'addRecord' || operation.op === 'updateRecord') {
+        records.push(operation.record);
+      }
+    }
+  }
+
+  return records;
+}
+
+/**
+ * Does a pull result signal that the validators passed with the query are
+ * still valid? Targets signal it with the `notModified` transform option.
+ */
+export function isNotModified(transforms: Transform[]): boolean {
+  return (
+    Array.isArray(transforms) &&
+    transforms.length > 0 &&
+    transforms.every(
+      transform => !!transform.options && !!transform.options.notModified
+    )
+  );
+}
+
+function validatorsInTransforms(
+  transforms: Transform[]
+): CacheValidators | undefined {
+  for (let transform of transforms) {
+    if (transform.options && transform.options.validators) {
+      return transform.options.validators as CacheValidators;
     }
   }
 }
+
+function toIdentities(
+  related: RecordIdentity[] | RecordIdentity | null | undefined
+): RecordIdentity[] {
+  if (Array.isArray(related)) {
+    return related;
+  }
+  return related ? [related] : [];
+}
+
+function includePaths(options?: any): string[] {
+  const paths = new Set<string>();
+  const collect = (include: any) => {
+    if (typeof include === 'string') {
+      include.split(',').forEach(path => paths.add(path.trim()));
+    } else if (Array.isArray(include)) {
+      include.forEach(collect);
+    }
+  };
+
+  if (options) {
+    collect(options.include);
+
+    if (options.sources) {
+      for (let name of Object.keys(options.sources)) {
+        collect(options.sources[name] && options.sources[name].include);
+      }
+    }
+  }
+
+  return Array.from(paths).filter(path => path);
+}
@@ -0,0 +1,75 @@
+import { Bucket } from '@orbit/core';
+import { QueryExpression, RecordIdentity } from '@orbit/data';
+
+/**
+ * Validators returned by a target alongside a pull, used to revalidate an
+ * expression with a conditional request.
+ */
+export interface CacheValidators {
+  etag?: string;
+  lastModified?: string;
+  version?: string;
+}
+
+export interface CacheEntry {
+  expression: QueryExpression;
+  loadedAt: number;
+
+  /**
+   * Identities of the records returned when the expression was loaded.
+   */
+  records?: RecordIdentity[];
+
+  validators?: CacheValidators;
+}
+
+export type CacheEntries = [string, CacheEntry][];
+
+/**
+ * Storage backend used by `CachePolicy` to persist loaded expressions between
+ * sessions.
+ */
+export interface CacheStorage {
+  getEntries(): Promise<CacheEntries>;
+  setEntries(entries: CacheEntries): Promise<void>;
+  clear(): Promise<void>;
+}
+
+export class MemoryCacheStorage implements CacheStorage {
+  private _entries: CacheEntries = [];
+
+  async getEntries(): Promise<CacheEntries> {
+    return this._entries;
+  }
+
+  async setEntries(entries: CacheEntries): Promise<void> {
+    this._entries = entries;
+  }
+
+  async clear(): Promise<void> {
+    this._entries = [];
+  }
+}
+
+export class BucketCacheStorage implements CacheStorage {
+  bucket: Bucket;
+  key: string;
+
+  constructor(bucket: Bucket, key = 'cache-policy') {
+    this.bucket = bucket;
+    this.key = key;
+  }
+
+  async getEntries(): Promise<CacheEntries> {
+    const entries = await this.bucket.getItem(this.key);
+    return Array.isArray(entries) ? entries : [];
+  }
+
+  setEntries(entries: CacheEntries): Promise<void> {
+    return this.bucket.setItem(this.key, entries);
+  }
+
+  clear(): Promise<void> {
+    return this.bucket.removeItem(this.key);
+  }
+}
@@ -0,0 +1,203 @@
+import { Evented, evented, Listener } from '@orbit/core';
+import { NetworkError, ServerError } from '@orbit/data';
+
+export type CircuitState = 'closed' | 'open' | 'half-open';
+
+export interface CircuitBreakerOptions {
+  enabled?: boolean;
+
+  /**
+   * Number of failures within `window` which opens the circuit.
+   */
+  failureThreshold?: number;
+
+  /**
+   * Duration (in ms) of the rolling window failures are counted in.
+   */
+  window?: number;
+
+  /**
+   * Time (in ms) the circuit stays open before letting a probe through.
+   */
+  coolDown?: number;
+
+  /**
+   * Should an error count as a failure of the target? Default is `true` for
+   * `NetworkError` and `ServerError`.
+   */
+  isFailure?: (e: Error) => boolean;
+}
+
+function defaultIsFailure(e: Error): boolean {
+  return e instanceof NetworkError || e instanceof ServerError;
+}
+
+/**
+ * Tracks failures of a remote target. Once too many requests fail the circuit
+ * opens and requests are short-circuited until `coolDown` elapses. A single
+ * probe is then let through (half-open): its success closes the circuit, its
+ * failure opens it again.
+ *
+ * Emits `stateChange` with the new and previous states.
+ */
+@evented
+export class CircuitBreaker implements Evented {
+  enabled = true;
+  failureThreshold = 5;
+  window = 10000;
+  coolDown = 30000;
+  isFailure: (e: Error) => boolean = defaultIsFailure;
+
+  private _state: CircuitState = 'closed';
+  private _failures: number[] = [];
+  private _openedAt = 0;
+  private _probing = false;
+
+  // Evented interface stubs
+  on: (event: string, listener: Listener) => () => void;
+  off: (event: string, listener?: Listener) => void;
+  one: (event: string, listener: Listener) => () => void;
+  emit: (event: string, ...args: any[]) => void;
+  listeners: (event: string) => Listener[];
+
+  constructor(options?: CircuitBreakerOptions) {
+    if (options) {
+      this.enabled = options.enabled !== false;
+
+      if (options.failureThreshold) {
+        this.failureThreshold = options.failureThreshold;
+      }
+      if (options.window) {
+        this.window = options.window;
+      }
+      if (options.coolDown) {
+        this.coolDown = options.coolDown;
+      }
+      if (options.isFailure) {
+        this.isFailure = options.isFailure;
+      }
+    }
+  }
+
+  get state(): CircuitState {
+    if (
+      this._state === 'open' &&
+      Date.now() - this._openedAt >= this.coolDown
+    ) {
+      this.transition('half-open');
+    }
+    return this._state;
+  }
+
+  /**
+   * Can a request be sent to the target? While half-open, only one probe is
+   * let through at a time.
+   */
+  get isAvailable(): boolean {
+    if (!this.enabled) {
+      return true;
+    }
+
+    switch (this.state) {
+      case 'closed':
+        return true;
+      case 'half-open':
+        return !this._probing;
+      default:
+        return false;
+    }
+  }
+
+  /**
+   * Record the outcome of a request sent to the target.
+   */
+  track<T>(result: Promise<T>): Promise<T> {
+    if (!this.enabled) {
+      return result;
+    }
+
+    this.attempt();
+
+    return result.then(
+      value => {
+        this.record();
+        return value;
+      },
+      e => {
+        this.record(e);
+        throw e;
+      }
+    );
+  }
+
+  /**
+   * Note that a request is about to be sent. While half-open, it is the probe
+   * and no other request is let through until its outcome is recorded.
+   */
+  attempt() {
+    if (this.enabled && this.state === 'half-open') {
+      this._probing = true;
+    }
+  }
+
+  /**
+   * Record the outcome of a request: a success, or the error it failed with.
+   * Only errors matching `isFailure` count as failures.
+   */
+  record(e?: Error) {
+    if (!this.enabled) {
+      return;
+    }
+
+    this._probing = false;
+    if (e && this.isFailure(e)) {
+      this.failure();
+    } else {
+      this.success();
+    }
+  }
+
+  success() {
+    this._failures = [];
+    if (this._state !== 'closed') {
+      this.transition('closed');
+    }
+  }
+
+  failure() {
+    if (this._state === 'half-open') {
+      this.open();
+      return;
+    }
+
+    const now = Date.now();
+    this._failures = this._failures.filter(
+      failedAt => now - failedAt < this.window
+    );
+    this._failures.push(now);
+
+    if (this._failures.length >= this.failureThreshold) {
+      this.open();
+    }
+  }
+
+  reset() {
+    this._failures = [];
+    this._probing = false;
+    if (this._state !== 'closed') {
+      this.transition('closed');
+    }
+  }
+
+  private open() {
+    this._failures = [];
+    this._openedAt = Date.now();
+    this.transition('open');
+  }
+
+  private transition(state: CircuitState) {
+    const previousState = this._state;
+    this._state = state;
+    this.emit('stateChange', state, previousState);
+  }
+}
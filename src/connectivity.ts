@@ -0,0 +1,162 @@
+/**
+ * Tells whether the target can be reached and when this changes.
+ */
+export interface ConnectivityProvider {
+  readonly isOnLine: boolean;
+
+  /**
+   * Call `onLine` and `offLine` when connectivity changes. Returns a
+   * function removing the listeners.
+   */
+  subscribe(onLine: () => void, offLine: () => void): () => void;
+}
+
+/**
+ * Connectivity reported by `navigator.onLine` and the `online` and `offline`
+ * events of a global scope. Without a scope, it is always online.
+ */
+class NavigatorConnectivity implements ConnectivityProvider {
+  private _scope: any;
+
+  constructor(scope: any) {
+    this._scope = scope;
+  }
+
+  get isOnLine(): boolean {
+    const navigator = this._scope && this._scope.navigator;
+    return !navigator || navigator.onLine !== false;
+  }
+
+  subscribe(onLine: () => void, offLine: () => void): () => void {
+    const scope = this._scope;
+
+    if (!scope || typeof scope.addEventListener !== 'function') {
+      return () => {};
+    }
+
+    scope.addEventListener('online', onLine);
+    scope.addEventListener('offline', offLine);
+
+    return () => {
+      scope.removeEventListener('online', onLine);
+      scope.removeEventListener('offline', offLine);
+    };
+  }
+}
+
+/**
+ * Connectivity of a browser window.
+ */
+export class BrowserConnectivity extends NavigatorConnectivity {
+  constructor() {
+    super(typeof window === 'undefined' ? undefined : window);
+  }
+}
+
+/**
+ * Connectivity of a web worker.
+ */
+export class WorkerConnectivity extends NavigatorConnectivity {
+  constructor() {
+    super(typeof self === 'undefined' ? undefined : self);
+  }
+}
+
+/**
+ * Connectivity of environments without network events, e.g. Node.
+ */
+export const alwaysOnLine: ConnectivityProvider = {
+  isOnLine: true,
+  subscribe() {
+    return () => {};
+  }
+};
+
+export interface HeartbeatConnectivityOptions {
+  /**
+   * Probe the target, e.g. by requesting a health check endpoint. The target
+   * is offline when the returned promise rejects.
+   */
+  ping: () => Promise<unknown>;
+
+  /**
+   * Time (in ms) between two probes. Default is `30000`.
+   */
+  interval?: number;
+}
+
+/**
+ * Connectivity found by probing the target periodically while subscribed.
+ * It is online until a probe fails.
+ */
+export class HeartbeatConnectivity implements ConnectivityProvider {
+  ping: () => Promise<unknown>;
+  interval = 30000;
+
+  private _onLine = true;
+  private _listeners: { onLine: () => void; offLine: () => void }[] = [];
+  private _timer: any;
+
+  constructor(options: HeartbeatConnectivityOptions) {
+    this.ping = options.ping;
+
+    if (options.interval) {
+      this.interval = options.interval;
+    }
+  }
+
+  get isOnLine(): boolean {
+    return this._onLine;
+  }
+
+  subscribe(onLine: () => void, offLine: () => void): () => void {
+    const listener = { onLine, offLine };
+
+    this._listeners.push(listener);
+    if (this._listeners.length === 1) {
+      this._timer = setInterval(() => this.probe(), this.interval);
+    }
+
+    return () => {
+      this._listeners = this._listeners.filter(l => l !== listener);
+      if (this._listeners.length === 0) {
+        clearInterval(this._timer);
+      }
+    };
+  }
+
+  /**
+   * Probe the target now. Resolves with the connectivity found.
+   */
+  async probe(): Promise<boolean> {
+    let onLine: boolean;
+
+    try {
+      await this.ping();
+      onLine = true;
+    } catch (e) {
+      onLine = false;
+    }
+
+    if (onLine !== this._onLine) {
+      this._onLine = onLine;
+      this._listeners.forEach(listener =>
+        onLine ? listener.onLine() : listener.offLine()
+      );
+    }
+    return onLine;
+  }
+}
+
+/**
+ * Connectivity of the current environment: a browser window, a web worker
+ * or, elsewhere, always online.
+ */
+export function defaultConnectivity(): ConnectivityProvider {
+  if (typeof window !== 'undefined') {
+    return new BrowserConnectivity();
+  } else if (typeof self !== 'undefined') {
+    return new WorkerConnectivity();
+  }
+  return alwaysOnLine;
+}
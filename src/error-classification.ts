@@ -0,0 +1,94 @@
+import { ClientError, NetworkError } from '@orbit/data';
+
+import { RequestCancelledError, RequestTimeoutError } from './exception';
+
+/**
+ * What a strategy should do with a failed request:
+ *
+ * - `retry` the request (subject to `shouldRetryQuery`/`shouldRetryUpdate`
+ *   and the retry policy)
+ * - `offline` marks the target as unreachable
+ * - `skip` drops the request and rejects it
+ * - `catch` hands the failure to the strategy `catch` handler, when it has one
+ */
+export type ErrorAction = 'retry' | 'offline' | 'skip' | 'catch';
+
+export interface ErrorRule {
+  /**
+   * Class the error should be an instance of.
+   */
+  error?: Function;
+
+  /**
+   * HTTP status(es) of the error response.
+   */
+  status?: number | number[];
+
+  /**
+   * Custom matcher, e.g. for validation errors of a specific source.
+   */
+  match?: (e: Error) => boolean;
+
+  action: ErrorAction | ErrorAction[];
+}
+
+/**
+ * Action used when no rule matches an error.
+ */
+export const DEFAULT_ERROR_ACTIONS: ErrorAction[] = ['catch'];
+
+/**
+ * Only network errors and timeouts are retried by default. Server errors or
+ * `429` responses can be retried with rules such as
+ * `{ error: ServerError, action: 'retry' }`.
+ */
+export const defaultErrorRules: ErrorRule[] = [
+  { error: NetworkError, action: ['offline', 'retry'] },
+  { error: RequestTimeoutError, action: 'retry' },
+  { error: RequestCancelledError, action: 'skip' },
+  { error: ClientError, action: 'catch' }
+];
+
+/**
+ * Read the HTTP status of a request error, if any.
+ */
+export function errorStatus(e: Error): number | undefined {
+  const error = e as any;
+
+  if (error.response && typeof error.response.status === 'number') {
+    return error.response.status;
+  }
+  if (typeof error.status === 'number') {
+    return error.status;
+  }
+}
+
+/**
+ * Find the actions of the first rule matching an error.
+ */
+export function classifyError(rules: ErrorRule[], e: Error): ErrorAction[] {
+  for (let rule of rules) {
+    if (matchesRule(rule, e)) {
+      return Array.isArray(rule.action) ? rule.action : [rule.action];
+    }
+  }
+  return DEFAULT_ERROR_ACTIONS;
+}
+
+function matchesRule(rule: ErrorRule, e: Error): boolean {
+  if (rule.error && !(e instanceof rule.error)) {
+    return false;
+  }
+  if (rule.status !== undefined) {
+    const status = errorStatus(e);
+    const statuses = Array.isArray(rule.status) ? rule.status : [rule.status];
+
+    if (status === undefined || statuses.indexOf(status) === -1) {
+      return false;
+    }
+  }
+  if (rule.match && !rule.match(e)) {
+    return false;
+  }
+  return true;
+}
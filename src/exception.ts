@@ -0,0 +1,83 @@
+import { Exception } from '@orbit/core';
+
+/**
+ * A request was rejected by the strategy before being sent to the target.
+ */
+export class RequestNotSentError extends Exception {
+  public name: string;
+  public description: string;
+
+  constructor(description: string) {
+    super(`Request not sent: ${description}`);
+    this.name = 'RequestNotSentError';
+    this.description = description;
+  }
+}
+
+/**
+ * The circuit breaker of the target is open.
+ */
+export class CircuitOpenError extends RequestNotSentError {
+  constructor(target?: string) {
+    super(`circuit is open${target ? ` for ${target}` : ''}`);
+    this.name = 'CircuitOpenError';
+  }
+}
+
+/**
+ * The request rate limit of the target is exceeded.
+ */
+export class RateLimitExceededError extends RequestNotSentError {
+  constructor(target?: string) {
+    super(`rate limit exceeded${target ? ` for ${target}` : ''}`);
+    this.name = 'RateLimitExceededError';
+  }
+}
+
+/**
+ * A failed request could not be retried without exceeding the retry budget.
+ */
+export class RetryBudgetExceededError extends Exception {
+  public name: string;
+  public description: string;
+  public reason: Error;
+
+  constructor(reason: Error) {
+    super(`Retry budget exceeded: ${reason.message}`);
+    this.name = 'RetryBudgetExceededError';
+    this.description = 'retry budget exceeded';
+    this.reason = reason;
+  }
+}
+
+/**
+ * A request sent to the target did not settle in time.
+ */
+export class RequestTimeoutError extends Exception {
+  public name: string;
+  public description: string;
+  public timeout: number;
+
+  constructor(timeout: number) {
+    super(`Request timed out after ${timeout}ms`);
+    this.name = 'RequestTimeoutError';
+    this.description = 'request timed out';
+    this.timeout = timeout;
+  }
+}
+
+/**
+ * A request was cancelled with `RemoteStrategy#cancel`.
+ */
+export class RequestCancelledError extends Exception {
+  public name: string;
+  public description: string;
+  public id: string;
+
+  constructor(id: string) {
+    super(`Request cancelled: ${id}`);
+    this.name = 'RequestCancelledError';
+    this.description = 'request cancelled';
+    this.id = id;
+  }
+}
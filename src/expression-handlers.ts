@@ -0,0 +1,186 @@
+import Orbit from '@orbit/core';
+import {
+  QueryExpression,
+  FindRecord,
+  FindRecords,
+  FindRelatedRecord,
+  FindRelatedRecords
+} from '@orbit/data';
+import { SyncRecordCache } from '@orbit/record-cache';
+
+import {
+  findRecordCacheKey,
+  findRecordsCacheKey,
+  findRelatedRecordCacheKey,
+  findRelatedRecordsCacheKey,
+  stableStringify
+} from './cache-key';
+import { RemoteStrategy } from './strategies/remote-strategy';
+import { PessimisticStrategy } from './strategies/pessimistic-strategy';
+
+const { assert } = Orbit;
+
+/**
+ * How strategies and cache policies deal with a query expression op. Every
+ * hook is optional.
+ */
+export interface ExpressionHandler<E extends QueryExpression = any> {
+  /**
+   * Key which is the same for semantically equivalent expressions. Default
+   * is the expression serialized with sorted keys.
+   */
+  cacheKey?: (expression: E) => string;
+
+  /**
+   * Can the expression be answered from the record cache? Default is
+   * `false`.
+   */
+  inCache?: (expression: E, cache: SyncRecordCache) => boolean;
+
+  /**
+   * Should the expression be reloaded from the target, blocking the query?
+   * Default is `false`.
+   */
+  shouldReload?: (
+    expression: E,
+    options: object | undefined,
+    strategy: RemoteStrategy
+  ) => boolean;
+
+  /**
+   * Should the expression be reloaded in the background when it is cached?
+   * Default is `true`.
+   */
+  shouldBackgroundReload?: (
+    expression: E,
+    options: object | undefined,
+    strategy: PessimisticStrategy
+  ) => boolean;
+}
+
+/**
+ * Handlers keyed by query expression op, consulted by strategies and cache
+ * policies instead of switching over the built-in ops.
+ */
+export class ExpressionHandlerRegistry {
+  private _handlers = new Map<string, ExpressionHandler>();
+
+  constructor(registry?: ExpressionHandlerRegistry) {
+    if (registry) {
+      registry._handlers.forEach((handler, op) => this.register(op, handler));
+    }
+  }
+
+  /**
+   * Register the handler of an op, replacing any previous one.
+   */
+  register<E extends QueryExpression>(
+    op: string,
+    handler: ExpressionHandler<E>
+  ) {
+    assert('An expression handler requires an `op`', typeof op === 'string');
+    assert(
+      `The expression handler for \`${op}\` should be an object`,
+      !!handler && typeof handler === 'object'
+    );
+
+    this._handlers.set(op, handler);
+  }
+
+  unregister(op: string) {
+    this._handlers.delete(op);
+  }
+
+  has(op: string): boolean {
+    return this._handlers.has(op);
+  }
+
+  handlerFor(op: string): ExpressionHandler | undefined {
+    return this._handlers.get(op);
+  }
+
+  cacheKey(expression: QueryExpression): string {
+    const handler = this.handlerFor(expression.op);
+
+    return handler && handler.cacheKey
+      ? handler.cacheKey(expression)
+      : stableStringify(expression);
+  }
+
+  inCache(expression: QueryExpression, cache: SyncRecordCache): boolean {
+    const handler = this.handlerFor(expression.op);
+
+    return !!handler && !!handler.inCache && handler.inCache(expression, cache);
+  }
+
+  shouldReload(
+    expression: QueryExpression,
+    options: object | undefined,
+    strategy: RemoteStrategy
+  ): boolean {
+    const handler = this.handlerFor(expression.op);
+
+    return (
+      !!handler &&
+      !!handler.shouldReload &&
+      handler.shouldReload(expression, options, strategy)
+    );
+  }
+
+  shouldBackgroundReload(
+    expression: QueryExpression,
+    options: object | undefined,
+    strategy: PessimisticStrategy
+  ): boolean {
+    const handler = this.handlerFor(expression.op);
+
+    return !handler || !handler.shouldBackgroundReload
+      ? true
+      : handler.shouldBackgroundReload(expression, options, strategy);
+  }
+}
+
+/**
+ * Registry of the built-in ops, used unless a strategy or cache policy is
+ * given its own. Custom ops can be registered on it.
+ */
+export const defaultExpressionHandlers = new ExpressionHandlerRegistry();
+
+defaultExpressionHandlers.register<FindRecord>('findRecord', {
+  cacheKey: findRecordCacheKey,
+  inCache: ({ record }, cache) => cache.getRecordSync(record) !== undefined,
+  shouldReload: (expression, options, strategy) =>
+    strategy.shouldReloadRecord(expression, options),
+  shouldBackgroundReload: (expression, options, strategy) =>
+    strategy.shouldBackgroundReloadRecord(expression, options)
+});
+
+defaultExpressionHandlers.register<FindRecords>('findRecords', {
+  cacheKey: findRecordsCacheKey,
+  inCache: ({ records }, cache) =>
+    !!records && cache.getRecordsSync(records).length === records.length,
+  shouldReload: (expression, options, strategy) =>
+    strategy.shouldReloadRecords(expression, options),
+  shouldBackgroundReload: (expression, options, strategy) =>
+    strategy.shouldBackgroundReloadRecords(expression, options)
+});
+
+defaultExpressionHandlers.register<FindRelatedRecord>('findRelatedRecord', {
+  cacheKey: findRelatedRecordCacheKey,
+  inCache: ({ record, relationship }, cache) =>
+    cache.getRelatedRecordSync(record, relationship) !== undefined,
+  shouldReload: (expression, options, strategy) =>
+    strategy.shouldReloadRelatedRecord(expression, options),
+  shouldBackgroundReload: (expression, options, strategy) =>
+    strategy.shouldBackgroundReloadRelatedRecord(expression, options)
+});
+
+defaultExpressionHandlers.register<FindRelatedRecords>('findRelatedRecords', {
+  cacheKey: findRelatedRecordsCacheKey,
+  inCache: ({ record, relationship }, cache) =>
+    cache.getRelatedRecordsSync(record, relationship) !== undefined,
+  shouldReload: (expression, options, strategy) =>
+    strategy.shouldReloadRelatedRecords(expression, options),
+  shouldBackgroundReload: (expression, options, strategy) =>
+    strategy.shouldBackgroundReloadRelatedRecords(expression, options)
+});
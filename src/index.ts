@@ -2,5 +2,19 @@ export * from './strategies/remote-strategy';
 export * from './strategies/optimistic-strategy';
 export * from './strategies/pessimistic-strategy';
 export * from './strategies/backup-strategy';
+export * from './strategies/failover-strategy';
 export * from './cache-policy';
+export * from './cache-storage';
+export * from './cache-key';
 export * from './retry-policy';
+export * from './circuit-breaker';
+export * from './exception';
+export * from './retry-budget';
+export * from './rate-limiter';
+export * from './error-classification';
+export * from './query-batcher';
+export * from './reload-rules';
+export * from './tracing';
+export * from './expression-handlers';
+export * from './request-scheduler';
+export * from './connectivity';
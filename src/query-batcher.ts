@@ -0,0 +1,187 @@
+import {
+  FindRecord,
+  Query,
+  RecordIdentity,
+  RecordOperation,
+  Transform,
+  buildQuery,
+  equalRecordIdentities
+} from '@orbit/data';
+
+import { stableStringify } from './cache-key';
+import { RequestNotSentError } from './exception';
+
+export interface QueryBatcherOptions {
+  enabled?: boolean;
+
+  /**
+   * Time (in ms) `findRecord` queries are collected for before being sent.
+   * Default is `0`, which batches queries issued within the same tick.
+   */
+  wait?: number;
+
+  /**
+   * Maximum number of queries in a batch. A full batch is sent right away.
+   */
+  maxSize?: number;
+}
+
+interface BatchedQuery {
+  query: Query;
+  resolve: (result: Transform[]) => void;
+  reject: (e: Error) => void;
+}
+
+interface Batch {
+  queries: BatchedQuery[];
+  timer: any;
+}
+
+/**
+ * Collects `findRecord` queries of the same type (and with the same options)
+ * and sends them as a single multi-expression query. Each batched query
+ * settles with the operations of its own record, plus those of records no
+ * other query of the batch asked for (e.g. included records). Disabled
+ * unless options are provided.
+ */
+export class QueryBatcher {
+  enabled: boolean;
+  wait = 0;
+  maxSize = 25;
+
+  private _batches = new Map<string, Batch>();
+
+  constructor(options?: QueryBatcherOptions) {
+    this.enabled = !!options && options.enabled !== false;
+
+    if (options) {
+      if (options.wait) {
+        this.wait = options.wait;
+      }
+      if (options.maxSize) {
+        this.maxSize = options.maxSize;
+      }
+    }
+  }
+
+  /**
+   * Can a query be batched? Only queries with a single `findRecord`
+   * expression are.
+   */
+  canBatch(query: Query): boolean {
+    return (
+      this.enabled &&
+      query.expressions.length === 1 &&
+      query.expressions[0].op === 'findRecord'
+    );
+  }
+
+  /**
+   * Add a query to the current batch of its type. `send` is called once the
+   * batch is flushed.
+   */
+  batch(
+    query: Query,
+    send: (query: Query) => Promise<Transform[]>
+  ): Promise<Transform[]> {
+    const key = batchKey(query);
+    const batch = this._batches.get(key) || this.startBatch(key, send);
+    const result = new Promise<Transform[]>((resolve, reject) => {
+      batch.queries.push({ query, resolve, reject });
+    });
+
+    if (batch.queries.length >= this.maxSize) {
+      this.flush(key, send);
+    }
+    return result;
+  }
+
+  /**
+   * Drop pending batches, rejecting their queries.
+   */
+  reset() {
+    for (let batch of this._batches.values()) {
+      clearTimeout(batch.timer);
+
+      const error = new RequestNotSentError('batch cancelled');
+      batch.queries.forEach(({ reject }) => reject(error));
+    }
+    this._batches.clear();
+  }
+
+  private startBatch(
+    key: string,
+    send: (query: Query) => Promise<Transform[]>
+  ): Batch {
+    const timer = setTimeout(() => this.flush(key, send), this.wait);
+    const batch: Batch = { queries: [], timer };
+
+    this._batches.set(key, batch);
+    return batch;
+  }
+
+  private flush(key: string, send: (query: Query) => Promise<Transform[]>) {
+    const batch = this._batches.get(key);
+
+    if (!batch) {
+      return;
+    }
+    clearTimeout(batch.timer);
+    this._batches.delete(key);
+
+    const { queries } = batch;
+
+    if (queries.length === 1) {
+      const [{ query, resolve, reject }] = queries;
+      send(query).then(resolve, reject);
+      return;
+    }
+
+    const records = queries.map(({ query }) => queryRecord(query));
+    const query = buildQuery(
+      queries.map(({ query }) => query.expressions[0]),
+      queries[0].query.options
+    );
+
+    send(query).then(
+      transforms => {
+        queries.forEach(({ resolve }, i) => {
+          const others = records.filter(
+            record => !equalRecordIdentities(record, records[i])
+          );
+          resolve(resultFor(transforms, others));
+        });
+      },
+      e => queries.forEach(({ reject }) => reject(e))
+    );
+  }
+}
+
+function queryRecord(query: Query): RecordIdentity {
+  return (query.expressions[0] as FindRecord).record;
+}
+
+function batchKey(query: Query): string {
+  return stableStringify({
+    type: queryRecord(query).type,
+    options: query.options
+  });
+}
+
+/**
+ * Keep the operations of a batched result which do not belong to another
+ * query of the batch.
+ */
+function resultFor(
+  transforms: Transform[],
+  others: RecordIdentity[]
+): Transform[] {
+  return transforms.map(transform => ({
+    ...transform,
+    operations: (transform.operations as RecordOperation[]).filter(
+      operation =>
+        !operation.record ||
+        !others.some(record => equalRecordIdentities(record, operation.record))
+    )
+  }));
+}
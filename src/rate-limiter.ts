@@ -0,0 +1,75 @@
+export interface RateLimiterOptions {
+  enabled?: boolean;
+
+  /**
+   * Maximum number of requests which can be sent in a burst.
+   */
+  capacity?: number;
+
+  /**
+   * Number of tokens added back per second.
+   */
+  refillRate?: number;
+}
+
+/**
+ * Token bucket limiting the rate of requests sent to the target. Disabled
+ * unless options are provided.
+ */
+export class RateLimiter {
+  enabled: boolean;
+  capacity = 10;
+  refillRate = 5;
+
+  private _tokens: number;
+  private _refilledAt = Date.now();
+
+  constructor(options?: RateLimiterOptions) {
+    this.enabled = !!options && options.enabled !== false;
+
+    if (options) {
+      if (options.capacity) {
+        this.capacity = options.capacity;
+      }
+      if (options.refillRate) {
+        this.refillRate = options.refillRate;
+      }
+    }
+
+    this._tokens = this.capacity;
+  }
+
+  get tokens(): number {
+    this.refill();
+    return this._tokens;
+  }
+
+  /**
+   * Take a token for a request. Returns `false` when the bucket is empty.
+   */
+  tryAcquire(): boolean {
+    if (!this.enabled) {
+      return true;
+    }
+
+    this.refill();
+    if (this._tokens < 1) {
+      return false;
+    }
+    this._tokens--;
+    return true;
+  }
+
+  reset() {
+    this._tokens = this.capacity;
+    this._refilledAt = Date.now();
+  }
+
+  private refill() {
+    const now = Date.now();
+    const refilled = ((now - this._refilledAt) / 1000) * this.refillRate;
+
+    this._tokens = Math.min(this.capacity, this._tokens + refilled);
+    this._refilledAt = now;
+  }
+}
@@ -0,0 +1,158 @@
+import Orbit from '@orbit/core';
+import {
+  QueryExpression,
+  FindRecord,
+  FindRecords,
+  FindRelatedRecord
+} from '@orbit/data';
+
+const { assert } = Orbit;
+
+export interface ReloadRule {
+  /**
+   * Always reload from the target, blocking the query.
+   */
+  reload?: boolean;
+
+  /**
+   * Reload from the target in the background when the expression is cached.
+   */
+  backgroundReload?: boolean;
+
+  /**
+   * Reload from the target, blocking the query, when the expression was
+   * loaded more than `maxAge` ms ago.
+   */
+  maxAge?: number;
+}
+
+/**
+ * Reload rules keyed by record type (`planet`), record type and relationship
+ * (`planet.moons`) or `*` for every expression. Each setting is resolved
+ * separately, from the most specific key to `*`.
+ */
+export interface ReloadRules {
+  [key: string]: ReloadRule;
+}
+
+export type ReloadHook = (
+  queryExpression: QueryExpression,
+  options?: object
+) => boolean;
+
+export interface CompiledReloadRules {
+  shouldReload: ReloadHook;
+  shouldBackgroundReload: ReloadHook;
+}
+
+const SETTINGS = ['reload', 'backgroundReload', 'maxAge'];
+const KEY_FORMAT = /^(\*|[^.*]+(\.[^.*]+)?)$/;
+
+/**
+ * Compile reload rules into `shouldReload*` and `shouldBackgroundReload*`
+ * hooks. `loadedAt` returns when an expression was last loaded, if known.
+ */
+export function compileReloadRules(
+  rules: ReloadRules,
+  loadedAt: (expression: QueryExpression) => number | undefined
+): CompiledReloadRules {
+  validateReloadRules(rules);
+
+  const setting = <K extends keyof ReloadRule>(
+    expression: QueryExpression,
+    name: K
+  ): ReloadRule[K] | undefined => {
+    for (let key of ruleKeys(expression)) {
+      const rule = rules[key];
+
+      if (rule && rule[name] !== undefined) {
+        return rule[name];
+      }
+    }
+  };
+
+  return {
+    shouldReload(expression: QueryExpression): boolean {
+      if (setting(expression, 'reload')) {
+        return true;
+      }
+
+      const maxAge = setting(expression, 'maxAge');
+      const loaded = maxAge === undefined ? undefined : loadedAt(expression);
+
+      return loaded !== undefined && Date.now() - loaded > maxAge;
+    },
+
+    shouldBackgroundReload(expression: QueryExpression): boolean {
+      return setting(expression, 'backgroundReload') !== false;
+    }
+  };
+}
+
+export function validateReloadRules(rules: ReloadRules) {
+  assert(
+    '`reloadRules` should be an object keyed by record type',
+    !!rules && typeof rules === 'object' && !Array.isArray(rules)
+  );
+
+  for (let key of Object.keys(rules)) {
+    const rule = rules[key];
+
+    assert(
+      `Invalid reload rule key \`${key}\`, expected \`*\`, \`type\` or \`type.relationship\``,
+      KEY_FORMAT.test(key)
+    );
+    assert(
+      `The reload rule for \`${key}\` should be an object`,
+      !!rule && typeof rule === 'object' && !Array.isArray(rule)
+    );
+
+    for (let name of Object.keys(rule)) {
+      assert(
+        `Unknown setting \`${name}\` in the reload rule for \`${key}\`, expected one of ${SETTINGS.map(
+          setting => `\`${setting}\``
+        ).join(', ')}`,
+        SETTINGS.indexOf(name) !== -1
+      );
+    }
+
+    for (let name of ['reload', 'backgroundReload']) {
+      const value = (rule as any)[name];
+
+      assert(
+        `\`${name}\` in the reload rule for \`${key}\` should be a boolean`,
+        value === undefined || typeof value === 'boolean'
+      );
+    }
+    assert(
+      `\`maxAge\` in the reload rule for \`${key}\` should be a positive number of ms`,
+      rule.maxAge === undefined ||
+        (typeof rule.maxAge === 'number' && rule.maxAge >= 0)
+    );
+  }
+}
+
+/**
+ * Keys of the rules which apply to an expression, most specific first.
+ */
+function ruleKeys(expression: QueryExpression): string[] {
+  switch (expression.op) {
+    case 'findRecord':
+      return [(expression as FindRecord).record.type, '*'];
+    case 'findRecords': {
+      const { type, records } = expression as FindRecords;
+      const recordType =
+        type || (records && records.length ? records[0].type : undefined);
+
+      return recordType ? [recordType, '*'] : ['*'];
+    }
+    case 'findRelatedRecord':
+    case 'findRelatedRecords': {
+      const { record, relationship } = expression as FindRelatedRecord;
+
+      return [`${record.type}.${relationship}`, record.type, '*'];
+    }
+    default:
+      return ['*'];
+  }
+}
@@ -0,0 +1,206 @@
+import { RequestNotSentError } from './exception';
+
+/**
+ * What a request is sent for, from the most to the least urgent:
+ *
+ * - `user`: a query or update the user is waiting for
+ * - `outbox`: an update already applied locally, flushed to the target
+ * - `background`: a background reload of cached data
+ * - `prefetch`: data loaded ahead of time
+ */
+export type RequestPriority = 'user' | 'outbox' | 'background' | 'prefetch';
+
+export const REQUEST_PRIORITIES: RequestPriority[] = [
+  'user',
+  'outbox',
+  'background',
+  'prefetch'
+];
+
+export function isRequestPriority(value: any): value is RequestPriority {
+  return REQUEST_PRIORITIES.indexOf(value) !== -1;
+}
+
+export interface RequestSchedulerOptions {
+  enabled?: boolean;
+
+  /**
+   * Maximum number of requests sent to the target at once. Default is `1`.
+   */
+  concurrency?: number;
+}
+
+interface ScheduledRequest {
+  id: string;
+  priority: RequestPriority;
+  send: () => Promise<any>;
+  ordered: boolean;
+  resolve: (result: any) => void;
+  reject: (e: Error) => void;
+}
+
+/**
+ * Holds requests back until fewer than `concurrency` requests are in flight,
+ * then sends them by priority, oldest first for the same priority. Ordered
+ * requests, e.g. updates, are never sent before an ordered request scheduled
+ * earlier, whatever their priority. Disabled unless options are provided.
+ */
+export class RequestScheduler {
+  enabled: boolean;
+  concurrency = 1;
+
+  private _queued: ScheduledRequest[] = [];
+  private _active = 0;
+
+  constructor(options?: RequestSchedulerOptions) {
+    this.enabled = !!options && options.enabled !== false;
+
+    if (options) {
+      if (options.concurrency) {
+        this.concurrency = options.concurrency;
+      }
+    }
+  }
+
+  /**
+   * Number of requests in flight.
+   */
+  get active(): number {
+    return this._active;
+  }
+
+  /**
+   * Number of requests waiting to be sent.
+   */
+  get pending(): number {
+    return this._queued.length;
+  }
+
+  /**
+   * Send a request once a slot is free and no request of a higher priority
+   * is waiting. An `ordered` request also waits for the ordered requests
+   * scheduled before it. `send` is called right away when disabled.
+   */
+  schedule<T>(
+    id: string,
+    priority: RequestPriority,
+    send: () => Promise<T>,
+    ordered = false
+  ): Promise<T> {
+    if (!this.enabled) {
+      return send();
+    }
+
+    const result = new Promise<T>((resolve, reject) => {
+      this.enqueue({ id, priority, send, ordered, resolve, reject });
+    });
+
+    this.dispatch();
+    return result;
+  }
+
+  /**
+   * Raise the priority of a waiting request, e.g. when the user asks for a
+   * query which is already scheduled as a background reload. Ordered
+   * requests keep their place.
+   */
+  promote(id: string, priority: RequestPriority) {
+    const index = this._queued.findIndex(request => request.id === id);
+
+    if (
+      index === -1 ||
+      this._queued[index].ordered ||
+      rank(priority) >= rank(this._queued[index].priority)
+    ) {
+      return;
+    }
+
+    const [request] = this._queued.splice(index, 1);
+    this.enqueue({ ...request, priority });
+  }
+
+  /**
+   * Drop a waiting request, rejecting it with `error`. Returns `false` when
+   * the request is not waiting, e.g. because it was already sent.
+   */
+  cancel(id: string, error: Error): boolean {
+    const index = this._queued.findIndex(request => request.id === id);
+
+    if (index === -1) {
+      return false;
+    }
+
+    const [request] = this._queued.splice(index, 1);
+    request.reject(error);
+    return true;
+  }
+
+  /**
+   * Drop waiting requests, rejecting them. Requests in flight are not
+   * affected.
+   */
+  reset() {
+    const queued = this._queued;
+    const error = new RequestNotSentError('scheduler reset');
+
+    this._queued = [];
+    queued.forEach(({ reject }) => reject(error));
+  }
+
+  private enqueue(request: ScheduledRequest) {
+    let earliest = 0;
+
+    if (request.ordered) {
+      this._queued.forEach((queued, i) => {
+        if (queued.ordered) {
+          earliest = i + 1;
+        }
+      });
+    }
+
+    const index = this._queued.findIndex(
+      (queued, i) =>
+        i >= earliest && rank(queued.priority) > rank(request.priority)
+    );
+
+    if (index === -1) {
+      this._queued.push(request);
+    } else {
+      this._queued.splice(index, 0, request);
+    }
+  }
+
+  private dispatch() {
+    while (this._active < this.concurrency && this._queued.length) {
+      const request = this._queued.shift() as ScheduledRequest;
+      const settle = () => {
+        this._active--;
+        this.dispatch();
+      };
+
+      this._active++;
+
+      let result: Promise<any>;
+      try {
+        result = request.send();
+      } catch (e) {
+        result = Promise.reject(e);
+      }
+
+      result.then(
+        value => {
+          settle();
+          request.resolve(value);
+        },
+        e => {
+          settle();
+          request.reject(e);
+        }
+      );
+    }
+  }
+}
+
+function rank(priority: RequestPriority): number {
+  return REQUEST_PRIORITIES.indexOf(priority);
+}
@@ -0,0 +1,87 @@
+export interface RetryBudgetOptions {
+  enabled?: boolean;
+
+  /**
+   * Maximum ratio of retries to requests sent within `window`.
+   */
+  ratio?: number;
+
+  /**
+   * Number of retries always allowed within `window`, whatever the ratio.
+   */
+  minRetries?: number;
+
+  /**
+   * Duration (in ms) of the rolling window requests and retries are counted
+   * in.
+   */
+  window?: number;
+}
+
+/**
+ * Limits retries to a share of recent requests, protecting the target against
+ * retry storms. Disabled unless options are provided.
+ */
+export class RetryBudget {
+  enabled: boolean;
+  ratio = 0.2;
+  minRetries = 3;
+  window = 10000;
+
+  private _requests: number[] = [];
+  private _retries: number[] = [];
+
+  constructor(options?: RetryBudgetOptions) {
+    this.enabled = !!options && options.enabled !== false;
+
+    if (options) {
+      if (options.ratio !== undefined) {
+        this.ratio = options.ratio;
+      }
+      if (options.minRetries !== undefined) {
+        this.minRetries = options.minRetries;
+      }
+      if (options.window) {
+        this.window = options.window;
+      }
+    }
+  }
+
+  get canRetry(): boolean {
+    if (!this.enabled) {
+      return true;
+    }
+
+    this.expire();
+    const allowed = Math.max(
+      this.minRetries,
+      Math.floor(this._requests.length * this.ratio)
+    );
+    return this._retries.length < allowed;
+  }
+
+  recordRequest() {
+    if (this.enabled) {
+      this._requests.push(Date.now());
+    }
+  }
+
+  recordRetry() {
+    if (this.enabled) {
+      this._retries.push(Date.now());
+    }
+  }
+
+  reset() {
+    this._requests = [];
+    this._retries = [];
+  }
+
+  private expire() {
+    const now = Date.now();
+    const isRecent = (at: number) => now - at < this.window;
+
+    this._requests = this._requests.filter(isRecent);
+    this._retries = this._retries.filter(isRecent);
+  }
+}
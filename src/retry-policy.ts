@@ -1,20 +1,124 @@
+import { ClientError, NetworkError, ServerError } from '@orbit/data';
+
+export type RetryJitter = 'none' | 'full' | 'equal' | 'decorrelated';
+
 export interface RetryPolicyOptions {
   enabled?: boolean;
   retries?: number;
   delay?: number;
   maxDelay?: number;
   factor?: number;
+
+  /**
+   * Randomization applied to the exponential backoff, so clients do not
+   * retry in lockstep. Default is `none`.
+   */
+  jitter?: RetryJitter;
+
+  /**
+   * Source of random numbers in `[0, 1)` used for jitter. Default is
+   * `Math.random`; use `seededRandom` for deterministic delays.
+   */
+  random?: () => number;
+
+  /**
+   * Extract a server-provided retry delay (in ms) from a failing request
+   * error. Default is `retryAfterFromError`.
+   */
+  retryAfter?: (e: Error) => number | undefined;
+}
+
+/**
+ * Create a deterministic random number generator (mulberry32).
+ */
+export function seededRandom(seed: number): () => number {
+  let state = seed >>> 0;
+
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+/**
+ * Read a retry delay (in ms) from an Orbit request error, either from its
+ * `retryAfter` field or from the `Retry-After` header of its response. Both
+ * accept a number of seconds or an HTTP date.
+ */
+export function retryAfterFromError(e: Error): number | undefined {
+  if (
+    !(
+      e instanceof ServerError ||
+      e instanceof ClientError ||
+      e instanceof NetworkError
+    )
+  ) {
+    return undefined;
+  }
+
+  const error = e as any;
+  if (error.retryAfter !== undefined && error.retryAfter !== null) {
+    return parseRetryAfter(error.retryAfter);
+  }
+
+  const headers = error.response && error.response.headers;
+  if (headers) {
+    const value =
+      typeof headers.get === 'function'
+        ? headers.get('Retry-After')
+        : headers['Retry-After'] || headers['retry-after'];
+
+    if (value) {
+      return parseRetryAfter(value);
+    }
+  }
+
+  return undefined;
+}
+
+function parseRetryAfter(value: number | string): number | undefined {
+  const seconds = Number(value);
+  if (!isNaN(seconds)) {
+    return Math.max(0, seconds * 1000);
+  }
+
+  const date = Date.parse(value as string);
+  if (!isNaN(date)) {
+    return Math.max(0, date - Date.now());
+  }
+
+  return undefined;
 }
 
+interface RetryState {
+  retries: number;
+  timer?: any;
+  previousDelay?: number;
+}
+
+/**
+ * Key used for retries which are not tied to a specific request.
+ */
+const DEFAULT_REQUEST_ID = '*';
+
+/**
+ * Retry state is tracked per request, keyed by query or transform id, so one
+ * flaky request does not exhaust or reset the budget of the others.
+ */
 export class RetryPolicy {
   enabled = true;
   retries = 5;
   delay = 200;
   maxDelay = 3200;
   factor = 2;
+  jitter: RetryJitter = 'none';
+  random: () => number = Math.random;
+  retryAfter: (e: Error) => number | undefined = retryAfterFromError;
 
-  private _retryTimer: any;
-  private _retries = 0;
+  private _states = new Map<string, RetryState>();
 
   constructor(options?: RetryPolicyOptions) {
     if (options) {
@@ -32,35 +136,133 @@ export class RetryPolicy {
       if (options.factor) {
         this.factor = options.factor;
       }
+      if (options.jitter) {
+        this.jitter = options.jitter;
+      }
+      if (options.random) {
+        this.random = options.random;
+      }
+      if (options.retryAfter) {
+        this.retryAfter = options.retryAfter;
+      }
     }
   }
 
   get canRetry() {
-    return this.enabled && this._retries < this.retries;
+    return this.canRetryRequest();
+  }
+
+  canRetryRequest(id = DEFAULT_REQUEST_ID) {
+    return this.enabled && this.attempts(id) < this.retries;
   }
 
-  retry(callback: () => void, delay?: number) {
-    if (this._retryTimer) {
+  /**
+   * Number of retries already scheduled for a request.
+   */
+  attempts(id = DEFAULT_REQUEST_ID): number {
+    const state = this._states.get(id);
+    return state ? state.retries : 0;
+  }
+
+  retry(callback: () => void, delay?: number, id = DEFAULT_REQUEST_ID) {
+    const state = this.state(id);
+
+    if (state.timer) {
       return;
     }
-    this._retryTimer = setTimeout(() => {
-      this._retryTimer = undefined;
-      callback();
-    }, delay || this.currentDelay);
-    this._retries++;
+    state.timer = setTimeout(
+      () => {
+        state.timer = undefined;
+        callback();
+      },
+      delay !== undefined ? delay : this.nextDelay(id)
+    );
+    state.retries++;
+  }
+
+  /**
+   * Reset the retry state of a request, or of every request when no `id` is
+   * given.
+   */
+  reset(id?: string) {
+    const ids = id === undefined ? Array.from(this._states.keys()) : [id];
+
+    for (let key of ids) {
+      const state = this._states.get(key);
+
+      if (state) {
+        clearTimeout(state.timer);
+        this._states.delete(key);
+      }
+    }
+  }
+
+  /**
+   * The server-provided retry delay for an error, clamped to `maxDelay`.
+   */
+  retryAfterDelay(e: Error): number | undefined {
+    const delay = this.retryAfter(e);
+
+    if (delay === undefined) {
+      return undefined;
+    }
+    return Math.min(delay, this.maxDelay);
   }
 
-  reset() {
-    clearTimeout(this._retryTimer);
-    this._retries = 0;
-    this._retryTimer = undefined;
+  /**
+   * Compute the delay of the next retry of a request, applying `jitter` to
+   * the exponential backoff.
+   */
+  nextDelay(id = DEFAULT_REQUEST_ID): number {
+    const state = this.state(id);
+    const delay = this.backoffDelay(id);
+    let nextDelay: number;
+
+    switch (this.jitter) {
+      case 'full':
+        nextDelay = this.random() * delay;
+        break;
+      case 'equal':
+        nextDelay = delay / 2 + (this.random() * delay) / 2;
+        break;
+      case 'decorrelated': {
+        const previousDelay = state.previousDelay || this.delay;
+        nextDelay = Math.min(
+          this.maxDelay,
+          this.delay + this.random() * (previousDelay * 3 - this.delay)
+        );
+        break;
+      }
+      default:
+        nextDelay = delay;
+    }
+
+    state.previousDelay = nextDelay;
+    return Math.round(nextDelay);
   }
 
+  /**
+   * The exponential backoff delay for the current attempt, before jitter.
+   */
   get currentDelay() {
+    return this.backoffDelay();
+  }
+
+  backoffDelay(id = DEFAULT_REQUEST_ID) {
     let delay = this.delay;
-    for (let i = 0; i < this._retries; i++) {
+    for (let i = 0; i < this.attempts(id); i++) {
       delay = delay * this.factor;
     }
     return Math.min(delay, this.maxDelay);
   }
+
+  private state(id: string): RetryState {
+    let state = this._states.get(id);
+
+    if (!state) {
+      state = { retries: 0 };
+      this._states.set(id, state);
+    }
+    return state;
+  }
 }
@@ -0,0 +1,186 @@
+import Orbit from '@orbit/core';
+import { Source, Query, Transform } from '@orbit/data';
+
+import {
+  PessimisticStrategy,
+  PessimisticStrategyOptions
+} from './pessimistic-strategy';
+import { CircuitBreaker, CircuitBreakerOptions } from '../circuit-breaker';
+import { RetryBudgetExceededError } from '../exception';
+
+const { assert } = Orbit;
+
+export interface FailoverTargetOptions {
+  /**
+   * The name of the remote source.
+   */
+  name: string;
+
+  /**
+   * Can updates be pushed to this target? Default is `true`.
+   */
+  writable?: boolean;
+}
+
+export interface FailoverStrategyOptions
+  extends Pick<
+    PessimisticStrategyOptions,
+    Exclude<keyof PessimisticStrategyOptions, 'target'>
+  > {
+  /**
+   * The remote sources, in order of preference.
+   */
+  targets: (string | FailoverTargetOptions)[];
+
+  /**
+   * Circuit breaker tracking the health of each target. A target fails over
+   * on its first `NetworkError` or `ServerError` by default.
+   */
+  health?: CircuitBreakerOptions;
+}
+
+/**
+ * A `PessimisticStrategy` with an ordered list of targets. Pulls are sent to
+ * the first healthy target and fail over to the next one when it fails.
+ * Pushes are only sent to writable targets. Once an unhealthy target cools
+ * down, it is probed again and used as soon as it recovers.
+ */
+export class FailoverStrategy extends PessimisticStrategy {
+  private _targets: FailoverTargetOptions[];
+  private _health: Map<string, CircuitBreaker>;
+
+  constructor(options: FailoverStrategyOptions) {
+    const { source, targets } = options;
+
+    assert(
+      'A list of `targets` must be specified for a FailoverStrategy',
+      Array.isArray(targets) && targets.length > 0
+    );
+
+    const targetOptions = targets.map(target =>
+      typeof target === 'string' ? { name: target } : target
+    );
+    const names = targetOptions.map(target => target.name);
+
+    assert(
+      'At least one of `targets` should be writable',
+      targetOptions.some(target => target.writable !== false)
+    );
+
+    super({
+      ...options,
+      name:
+        options.name ||
+        `failover ${source}:{query|update} -> ${names.join('|')}:{pull|push}`,
+      target: names[0]
+    });
+
+    this._sourceNames = [source, ...names];
+    this._targets = targetOptions;
+    this._health = new Map();
+    for (let name of names) {
+      this._health.set(
+        name,
+        new CircuitBreaker({ failureThreshold: 1, ...options.health })
+      );
+    }
+  }
+
+  get targets(): Source[] {
+    return this._sources.slice(1);
+  }
+
+  /**
+   * The circuit breaker tracking the health of a target.
+   */
+  targetHealth(name: string): CircuitBreaker {
+    return this._health.get(name) as CircuitBreaker;
+  }
+
+  generateListeners() {
+    return [
+      ...super.generateListeners(),
+      ...this.targets
+        .slice(1)
+        .map(target =>
+          target.on('transform', this.generateTransformListener(target))
+        )
+    ];
+  }
+
+  protected sendPull(query: Query): Promise<Transform[]> {
+    const error = this.checkRequest();
+    if (error) {
+      return Promise.reject(error);
+    }
+    this.circuitBreaker.attempt();
+    return this.pullFrom(this.availableTargets(false), query);
+  }
+
+  protected sendPush(transform: Transform): Promise<Transform[]> {
+    const error = this.checkRequest();
+    if (error) {
+      return Promise.reject(error);
+    }
+
+    const [target] = this.availableTargets(true);
+    this.circuitBreaker.attempt();
+    return this.targetHealth(target.name).track(
+      (target as any).push(transform)
+    );
+  }
+
+  /**
+   * Skip the failed request of the target it was sent to.
+   */
+  protected skipTargetRequest(e: Error, id?: string) {
+    const reason = e instanceof RetryBudgetExceededError ? e.reason : e;
+
+    for (let target of this.targets) {
+      if (
+        this.isCurrentRequest(target, id) ||
+        target.requestQueue.error === reason
+      ) {
+        target.requestQueue.skip(e);
+      }
+    }
+  }
+
+  async deactivate(): Promise<void> {
+    this._health.forEach(health => health.reset());
+    await super.deactivate();
+  }
+
+  /**
+   * Targets a request can be sent to, in order of preference. When none of
+   * them is healthy, all of them are tried.
+   */
+  private availableTargets(writable: boolean): Source[] {
+    const targets = this.targets.filter(
+      (target, i) => !writable || this._targets[i].writable !== false
+    );
+    const available = targets.filter(
+      target => this.targetHealth(target.name).isAvailable
+    );
+
+    return available.length ? available : targets;
+  }
+
+  private async pullFrom(
+    targets: Source[],
+    query: Query
+  ): Promise<Transform[]> {
+    const [target, ...fallbacks] = targets;
+    const health = this.targetHealth(target.name);
+
+    try {
+      return await health.track((target as any).pull(query));
+    } catch (e) {
+      if (!fallbacks.length || !health.isFailure(e)) {
+        throw e;
+      }
+      await target.requestQueue.skip(e);
+      return this.pullFrom(fallbacks, query);
+    }
+  }
+}
@@ -1,27 +1,40 @@
-import { Transform, Query, NetworkError } from '@orbit/data';
+import { Transform, Query } from '@orbit/data';
 
 import { RemoteStrategy, RemoteStrategyOptions } from './remote-strategy';
+import { RequestCancelledError, RequestNotSentError } from '../exception';
+import { ConnectivityProvider, defaultConnectivity } from '../connectivity';
 
 export interface OptimisticStrategyOptions extends RemoteStrategyOptions {
   /**
    * A handler for errors thrown as a result of performing an update.
    */
   catch?: (transform: Transform, e: Error) => void;
+
+  /**
+   * Tells whether the target can be reached. Defaults to the connectivity of
+   * the browser window or web worker, and to always online elsewhere.
+   */
+  connectivity?: ConnectivityProvider;
 }
 
 export function onLine(): boolean {
-  return window === undefined ? true : navigator.onLine;
+  return defaultConnectivity().isOnLine;
 }
 
 export class OptimisticStrategy extends RemoteStrategy {
   catch?: (transform: Transform, e: Error) => void;
+  connectivity: ConnectivityProvider;
+
+  private _failedQueries: WeakSet<Error>;
 
   constructor(options: OptimisticStrategyOptions) {
     options.prefix = 'optimistic';
     super(options);
 
     this.catch = options.catch;
-    this._onLine = onLine();
+    this.connectivity = options.connectivity || defaultConnectivity();
+    this._onLine = this.connectivity.isOnLine;
+    this._failedQueries = new WeakSet();
   }
 
   generateListeners() {
@@ -29,12 +42,13 @@ export class OptimisticStrategy extends RemoteStrategy {
       this.generateOnLineListener(),
       this.target.on('transform', this.generateTransformListener()),
       this.target.on('pull', this.generateQueryListener()),
-      this.target.on('pullFail', this.generateQueryFailListener()),
+      this.target.on('pullFail', this.generatePullFailListener()),
       this.target.on('push', this.generateUpdateListener()),
-      this.target.on('pushFail', this.generateUpdateFailListener()),
+      this.target.on('pushFail', this.generatePushFailListener()),
       this.source.on('beforeQuery', this.generateBeforeQueryListener()),
       this.source.on('queryFail', this.generateQueryFailListener()),
       this.source.on('beforeUpdate', this.generateBeforeUpdateListener()),
+      this.source.on('update', this.generateCacheInvalidationListener()),
       this.source.on('updateFail', this.generateUpdateFailListener())
     ];
   }
@@ -44,9 +58,18 @@ export class OptimisticStrategy extends RemoteStrategy {
     return this._onLine;
   }
 
-  onLine() {
-    this._onLine = onLine();
-    this.retryPolicy.reset();
+  /**
+   * Mark the target as reachable and settle a request (see `settleRequest`),
+   * or reset the retry state of every request when no `id` is given.
+   */
+  onLine(id?: string) {
+    this._onLine = this.connectivity.isOnLine;
+
+    if (id) {
+      this.settleRequest(id);
+    } else {
+      this.retryPolicy.reset();
+    }
   }
 
   offLine() {
@@ -54,10 +77,6 @@ export class OptimisticStrategy extends RemoteStrategy {
   }
 
   protected generateOnLineListener(): () => void {
-    if (window === undefined) {
-      return () => {};
-    }
-
     const onLineCallback = () => {
       this.onLine();
 
@@ -69,17 +88,14 @@ export class OptimisticStrategy extends RemoteStrategy {
       this.offLine();
     };
 
-    window.addEventListener('online', onLineCallback);
-    window.addEventListener('offline', offLineCallback);
-
-    return () => {
-      window.removeEventListener('online', onLineCallback);
-      window.removeEventListener('offline', offLineCallback);
-    };
+    return this.connectivity.subscribe(onLineCallback, offLineCallback);
   }
 
   protected generateTransformListener() {
     return (transform: Transform) => {
+      if (!this.isPulling()) {
+        this.cachePolicy.observeTransform(transform).catch(() => {});
+      }
       (this.source as any).sync(transform);
     };
   }
@@ -89,11 +105,18 @@ export class OptimisticStrategy extends RemoteStrategy {
       return true;
     }
 
+    // A failure marks the target offline, but providers such as
+    // `alwaysOnLine` never notify that it is back: trust the provider again,
+    // the circuit breaker guards against a target which is still down.
+    const isAvailable =
+      (this.isOnLine || this.connectivity.isOnLine) &&
+      this.circuitBreaker.isAvailable;
+
     if (this.cachePolicy.has(query)) {
-      return false;
+      return this.cachePolicy.isStale(query) && isAvailable;
     }
 
-    return this.isOnLine;
+    return isAvailable;
   }
 
   protected blockingBeforeQuery(query: Query) {
@@ -102,47 +125,76 @@ export class OptimisticStrategy extends RemoteStrategy {
 
   protected generateBeforeQueryListener() {
     return (query: Query) => {
+      const span = this.startSpan('query', query.id, {
+        cached: this.cachePolicy.has(query),
+        stale: this.cachePolicy.isStale(query),
+        reload: this.shouldReload(query),
+        online: this.isOnLine,
+        circuit: this.circuitBreaker.state
+      });
+
       if (!this.filterBeforeQuery(query)) {
+        this.endSpan(query.id, 'cache');
         return;
       }
 
-      const result = (this.target as any).pull(query);
+      const blocking = this.blockingBeforeQuery(query);
+      const priority = this.queryPriority(query, blocking);
+      const result = this.pull(query, priority, blocking);
+
+      span.setAttributes({ blocking, priority });
+      result.then(() => this.endSpan(query.id, 'remote')).catch(() => {});
 
-      if (result && result.then && this.blockingBeforeQuery(query)) {
+      if (blocking) {
         return result.catch((e: Error) => {
           this.queryFailHandler(query, e);
         });
       }
+      result.catch((e: Error) => this.endFailedSpan(query.id, e));
     };
   }
 
   protected generateBeforeUpdateListener() {
     return (transform: Transform) => {
-      const result = (this.target as any).push(transform);
-
-      if (
-        result &&
-        result.then &&
-        transform.options &&
-        transform.options.blocking
-      ) {
+      const blocking = !!(transform.options && transform.options.blocking);
+      const priority = this.updatePriority(transform, blocking);
+
+      this.startSpan('update', transform.id, {
+        blocking,
+        priority,
+        online: this.isOnLine,
+        circuit: this.circuitBreaker.state
+      });
+
+      const result = this.push(transform, priority);
+
+      result.then(() => this.endSpan(transform.id, 'remote')).catch(() => {});
+
+      if (blocking) {
         return result.catch((e: Error) => {
           this.updateFailHandler(transform, e);
         });
       }
+      result.catch((e: Error) => {
+        if (e instanceof RequestNotSentError) {
+          this.notSentHandler(transform, e);
+        } else {
+          this.endFailedSpan(transform.id, e);
+        }
+      });
     };
   }
 
   protected generateQueryListener() {
-    return (query: Query) => {
-      this.onLine();
-      this.cachePolicy.load(query);
+    return (query: Query, result: Transform[]) => {
+      this.onLine(query.id);
+      return this.cachePolicy.load(query, result);
     };
   }
 
   protected generateUpdateListener() {
-    return () => {
-      this.onLine();
+    return (transform: Transform) => {
+      this.onLine(transform.id);
     };
   }
 
@@ -152,6 +204,20 @@ export class OptimisticStrategy extends RemoteStrategy {
     };
   }
 
+  protected generatePullFailListener() {
+    return (query: Query, e: Error) => {
+      this.circuitBreaker.record(e);
+      this.queryFailHandler(query, e);
+    };
+  }
+
+  protected generatePushFailListener() {
+    return (transform: Transform, e: Error) => {
+      this.circuitBreaker.record(e);
+      this.updateFailHandler(transform, e);
+    };
+  }
+
   protected generateUpdateFailListener() {
     return (transform: Transform, e: Error) => {
       this.updateFailHandler(transform, e);
@@ -159,31 +225,74 @@ export class OptimisticStrategy extends RemoteStrategy {
   }
 
   protected queryFailHandler(query: Query, e: Error) {
-    if (e instanceof NetworkError) {
+    // A failed blocking query is reported both by the target and by its own
+    // request: handle it once.
+    if (this._failedQueries.has(e)) {
+      return;
+    }
+    this._failedQueries.add(e);
+
+    if (e instanceof RequestNotSentError) {
+      // Nothing was queued on the target, answer with local data.
+      this.endSpan(query.id, 'notSent', e);
+      return;
+    }
+    if (e instanceof RequestCancelledError) {
+      // The request was already removed from the target queue.
+      this.endSpan(query.id, 'cancelled', e);
+      return;
+    }
+
+    if (this.errorActions(e).indexOf('offline') !== -1) {
       this.offLine();
     }
 
-    if (this.retryPolicy.canRetry && this.shouldRetryQuery(query, e)) {
-      this.retry();
-    } else {
-      this.target.requestQueue.skip(e);
+    const error = this.retryRequest(query.id, e, () =>
+      this.shouldRetryQuery(query, e)
+    );
+
+    if (error) {
+      this.skipTargetRequest(error, query.id);
     }
   }
 
   protected updateFailHandler(transform: Transform, e: Error) {
-    if (e instanceof NetworkError) {
+    const actions = this.errorActions(e);
+
+    if (actions.indexOf('offline') !== -1) {
       this.offLine();
     }
 
-    if (this.retryPolicy.canRetry && this.shouldRetryUpdate(transform, e)) {
-      this.retry();
-    } else if (transform.options && transform.options.blocking) {
-      this.skipAndThrowError(e);
+    const error = this.retryRequest(transform.id, e, () =>
+      this.shouldRetryUpdate(transform, e)
+    );
+
+    if (!error) {
+      return;
+    } else if (
+      (transform.options && transform.options.blocking) ||
+      actions.indexOf('skip') !== -1
+    ) {
+      this.skipAndThrowError(error, transform.id);
     } else if (this.catch) {
+      this.catch.apply(this, [transform, error]);
+    } else {
+      console.warn('No `catch` handler was defined.');
+      this.skipAndThrowError(error, transform.id);
+    }
+  }
+
+  /**
+   * A non-blocking update could not be sent to the target. Its failure is
+   * handed to `catch` without touching the request queues.
+   */
+  protected notSentHandler(transform: Transform, e: Error) {
+    this.endSpan(transform.id, 'notSent', e);
+
+    if (this.catch) {
       this.catch.apply(this, [transform, e]);
     } else {
       console.warn('No `catch` handler was defined.');
-      this.skipAndThrowError(e);
     }
   }
 }
@@ -1,4 +1,5 @@
 import {
+  Source,
   Transform,
   Query,
   QueryExpression,
@@ -9,6 +10,7 @@ import {
 } from '@orbit/data';
 
 import { RemoteStrategy, RemoteStrategyOptions } from './remote-strategy';
+import { isNotModified } from '../cache-policy';
 
 export interface PessimisticStrategyOptions extends RemoteStrategyOptions {
   /**
@@ -73,16 +75,18 @@ export class PessimisticStrategy extends RemoteStrategy {
 
     this.passHints = options.passHints !== false;
 
+    const shouldBackgroundReload = this.reloadRules
+      ? this.reloadRules.shouldBackgroundReload
+      : defaultShouldBackgroundReload;
+
     this.shouldBackgroundReloadRecord =
-      options.shouldBackgroundReloadRecord || defaultShouldBackgroundReload;
+      options.shouldBackgroundReloadRecord || shouldBackgroundReload;
     this.shouldBackgroundReloadRecords =
-      options.shouldBackgroundReloadRecords || defaultShouldBackgroundReload;
+      options.shouldBackgroundReloadRecords || shouldBackgroundReload;
     this.shouldBackgroundReloadRelatedRecord =
-      options.shouldBackgroundReloadRelatedRecord ||
-      defaultShouldBackgroundReload;
+      options.shouldBackgroundReloadRelatedRecord || shouldBackgroundReload;
     this.shouldBackgroundReloadRelatedRecords =
-      options.shouldBackgroundReloadRelatedRecords ||
-      defaultShouldBackgroundReload;
+      options.shouldBackgroundReloadRelatedRecords || shouldBackgroundReload;
   }
 
   generateListeners() {
@@ -91,7 +95,9 @@ export class PessimisticStrategy extends RemoteStrategy {
       this.source.on('beforeQuery', this.generateBeforeQueryListener()),
       this.source.on('queryFail', this.generateQueryFailListener()),
       this.source.on('beforeUpdate', this.generateBeforeUpdateListener()),
-      this.source.on('updateFail', this.generateUpdateFailListener())
+      this.source.on('update', this.generateCacheInvalidationListener()),
+      this.source.on('updateFail', this.generateUpdateFailListener()),
+      ...this.generateTargetListeners()
     ];
   }
 
@@ -100,55 +106,26 @@ export class PessimisticStrategy extends RemoteStrategy {
       return true;
     }
 
-    for (let expression of query.expressions) {
-      switch (expression.op) {
-        case 'findRecord':
-          if (
-            !this.shouldBackgroundReloadRecord(
-              expression as FindRecord,
-              query.options
-            )
-          ) {
-            return false;
-          }
-          break;
-        case 'findRecords':
-          if (
-            !this.shouldBackgroundReloadRecords(
-              expression as FindRecords,
-              query.options
-            )
-          ) {
-            return false;
-          }
-          break;
-        case 'findRelatedRecord':
-          if (
-            !this.shouldBackgroundReloadRelatedRecord(
-              expression as FindRelatedRecord,
-              query.options
-            )
-          ) {
-            return false;
-          }
-          break;
-        case 'findRelatedRecords':
-          if (
-            !this.shouldBackgroundReloadRelatedRecords(
-              expression as FindRelatedRecords,
-              query.options
-            )
-          ) {
-            return false;
-          }
-          break;
-      }
-    }
-    return true;
+    return query.expressions.every(expression =>
+      this.expressionHandlers.shouldBackgroundReload(
+        expression,
+        query.options,
+        this
+      )
+    );
   }
 
-  protected generateTransformListener() {
-    return (transform: Transform) => (this.source as any).sync(transform);
+  protected generateTransformListener(target: Source = this.target) {
+    return (transform: Transform) => {
+      if (transform.options && transform.options.notModified) {
+        return;
+      }
+
+      if (!this.isPulling(target)) {
+        this.cachePolicy.observeTransform(transform).catch(() => {});
+      }
+      return (this.source as any).sync(transform);
+    };
   }
 
   protected filterBeforeQuery(query: Query) {
@@ -160,11 +137,27 @@ export class PessimisticStrategy extends RemoteStrategy {
       return true;
     }
 
-    return false;
+    return this.cachePolicy.isStale(query);
   }
 
   protected blockingBeforeQuery(query: Query) {
-    if (this.cachePolicy.has(query) && this.shouldBackgroundReload(query)) {
+    const { reloadRules } = this;
+
+    // Reload rules force cached queries to reload before answering them. The
+    // `reload` option and `shouldReload*` hooks keep reloading in background.
+    if (
+      reloadRules &&
+      query.expressions.some(expression =>
+        reloadRules.shouldReload(expression, query.options)
+      )
+    ) {
+      return true;
+    }
+
+    if (
+      this.cachePolicy.has(query) &&
+      (this.shouldBackgroundReload(query) || this.cachePolicy.isStale(query))
+    ) {
       return false;
     }
 
@@ -173,50 +166,84 @@ export class PessimisticStrategy extends RemoteStrategy {
 
   protected generateBeforeQueryListener() {
     return (query: Query, hints: any) => {
+      const span = this.startSpan('query', query.id, {
+        cached: this.cachePolicy.has(query),
+        stale: this.cachePolicy.isStale(query),
+        reload: this.shouldReload(query),
+        backgroundReload: this.shouldBackgroundReload(query)
+      });
+
       if (!this.filterBeforeQuery(query)) {
+        this.endSpan(query.id, 'cache');
         return;
       }
 
-      const result = (this.target as any).pull(query);
-
-      if (result && result.then) {
-        result.then(() => {
-          this.retryPolicy.reset();
-          this.cachePolicy.load(query);
+      const blocking = this.blockingBeforeQuery(query);
+      const priority = this.queryPriority(query, blocking);
+      const result = this.pull(
+        this.conditionalQuery(query),
+        priority,
+        blocking
+      );
+
+      span.setAttributes({ blocking, priority });
+      result
+        .then((transforms: Transform[]) => {
+          this.retryPolicy.reset(query.id);
+
+          if (isNotModified(transforms)) {
+            this.endSpan(query.id, 'notModified');
+            return this.cachePolicy.touch(query);
+          } else {
+            this.endSpan(query.id, 'remote');
+            return this.cachePolicy.load(query, transforms);
+          }
+        })
+        .catch((e: Error) => {
+          // Failed blocking queries are handled by the `queryFail` listener.
+          if (!blocking) {
+            this.endFailedSpan(query.id, e);
+          }
         });
 
-        if (this.blockingBeforeQuery(query)) {
-          if (this.passHints && typeof hints === 'object') {
-            return this.applyHint(hints, result);
-          }
-          return result;
+      if (blocking) {
+        if (this.passHints && typeof hints === 'object') {
+          return this.applyHint(hints, result);
         }
+        return result;
       }
     };
   }
 
   protected generateQueryFailListener() {
     return (query: Query, e: Error) => {
-      if (this.retryPolicy.canRetry && this.shouldRetryQuery(query, e)) {
-        this.retry();
-      } else {
-        this.skipAndThrowError(e);
+      const error = this.retryRequest(query.id, e, () =>
+        this.shouldRetryQuery(query, e)
+      );
+
+      if (error) {
+        this.skipAndThrowError(error, query.id);
       }
     };
   }
 
   protected generateBeforeUpdateListener() {
     return (transform: Transform, hints: any) => {
-      const result = (this.target as any).push(transform);
+      const priority = this.updatePriority(transform, true);
 
-      if (result && result.then) {
-        result.then(() => {
-          this.retryPolicy.reset();
-        });
+      this.startSpan('update', transform.id, { blocking: true, priority });
 
-        if (this.passHints && typeof hints === 'object') {
-          return this.applyHint(hints, result);
-        }
+      const result = this.push(transform, priority);
+
+      result
+        .then(() => {
+          this.endSpan(transform.id, 'remote');
+          this.retryPolicy.reset(transform.id);
+        })
+        .catch(() => {});
+
+      if (this.passHints && typeof hints === 'object') {
+        return this.applyHint(hints, result);
       }
 
       return result;
@@ -225,15 +252,35 @@ export class PessimisticStrategy extends RemoteStrategy {
 
   protected generateUpdateFailListener() {
     return (transform: Transform, e: Error) => {
-      if (this.retryPolicy.canRetry && this.shouldRetryUpdate(transform, e)) {
-        this.retry();
-      } else {
-        this.skipAndThrowError(e);
+      const error = this.retryRequest(transform.id, e, () =>
+        this.shouldRetryUpdate(transform, e)
+      );
+
+      if (error) {
+        this.skipAndThrowError(error, transform.id);
       }
     };
   }
 
+  /**
+   * Pass the validators stored for a query to the target so it can answer
+   * with "not modified" instead of the full result.
+   */
+  protected conditionalQuery(query: Query): Query {
+    const validators = this.cachePolicy.validatorsFor(query);
+
+    if (!validators) {
+      return query;
+    }
+
+    return { ...query, options: { ...query.options, validators } };
+  }
+
   protected async applyHint(hints: any, result: Promise<any>): Promise<void> {
-    return (hints.data = await result);
+    const data = await result;
+
+    if (!isNotModified(data)) {
+      hints.data = data;
+    }
   }
 }
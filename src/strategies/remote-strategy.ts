@@ -7,17 +7,53 @@ import Coordinator, {
 import {
   Source,
   Query,
+  RecordIdentity,
   Transform,
   FindRecord,
   FindRecords,
   FindRelatedRecord,
   FindRelatedRecords,
-  NetworkError,
   QueryExpression
 } from '@orbit/data';
 
 import { RetryPolicy, RetryPolicyOptions } from '../retry-policy';
 import { CachePolicy, CachePolicyOptions } from '../cache-policy';
+import { CacheEntry } from '../cache-storage';
+import { queryCacheKey } from '../cache-key';
+import {
+  ExpressionHandlerRegistry,
+  defaultExpressionHandlers
+} from '../expression-handlers';
+import { QueryBatcher, QueryBatcherOptions } from '../query-batcher';
+import {
+  RequestPriority,
+  RequestScheduler,
+  isRequestPriority,
+  RequestSchedulerOptions
+} from '../request-scheduler';
+import { Span, SpanAttributes, Tracer, noopTracer } from '../tracing';
+import {
+  CompiledReloadRules,
+  ReloadRules,
+  compileReloadRules
+} from '../reload-rules';
+import { CircuitBreaker, CircuitBreakerOptions } from '../circuit-breaker';
+import { RetryBudget, RetryBudgetOptions } from '../retry-budget';
+import { RateLimiter, RateLimiterOptions } from '../rate-limiter';
+import {
+  ErrorAction,
+  ErrorRule,
+  classifyError,
+  defaultErrorRules
+} from '../error-classification';
+import {
+  CircuitOpenError,
+  RateLimitExceededError,
+  RequestCancelledError,
+  RequestNotSentError,
+  RequestTimeoutError,
+  RetryBudgetExceededError
+} from '../exception';
 
 const { assert } = Orbit;
 
@@ -42,6 +78,76 @@ export interface RemoteStrategyOptions extends StrategyOptions {
    */
   retryPolicy?: RetryPolicyOptions;
 
+  /**
+   * Circuit breaker to use for requests to the target. It counts the
+   * failures reported by the target, retries included, and holds retries
+   * back while open.
+   */
+  circuitBreaker?: CircuitBreakerOptions;
+
+  /**
+   * Share of recent requests which can be retried. Unlimited by default.
+   */
+  retryBudget?: RetryBudgetOptions;
+
+  /**
+   * Token bucket limiting the rate of requests sent to the target. Unlimited
+   * by default.
+   */
+  rateLimiter?: RateLimiterOptions;
+
+  /**
+   * Rules mapping request errors to actions. They are checked before the
+   * default rules, and the first matching rule wins.
+   */
+  errorRules?: ErrorRule[];
+
+  /**
+   * Should identical queries share a single in-flight pull from the target?
+   * Default is `true`.
+   */
+  coalesceQueries?: boolean;
+
+  /**
+   * Batch `findRecord` queries of the same type into a single pull. Only
+   * non-blocking queries, e.g. background reloads, are batched: blocking
+   * queries are sent right away, as the source would not send another query
+   * to join them before they settle. Disabled by default.
+   */
+  batching?: QueryBatcherOptions;
+
+  /**
+   * Send requests to the target by priority, with a limited number of them
+   * in flight, so that user queries are not held up by background work.
+   * Updates are still sent in the order they were made. Disabled by default.
+   */
+  scheduling?: RequestSchedulerOptions;
+
+  /**
+   * Reload rules keyed by record type and relationship. They are compiled
+   * into the `shouldReload*` hooks which are not given explicitly.
+   */
+  reloadRules?: ReloadRules;
+
+  /**
+   * Time (in ms) after which pulls and pushes fail with a
+   * `RequestTimeoutError`. It can be overridden with the `timeout` option of
+   * a query or transform. No timeout by default.
+   */
+  timeout?: number;
+
+  /**
+   * Tracer opening a span for each query and update. Nothing is recorded by
+   * default.
+   */
+  tracer?: Tracer;
+
+  /**
+   * Handlers of the query expression ops, providing their cache key, cache
+   * presence check and reload hooks. Defaults to the built-in ops.
+   */
+  expressionHandlers?: ExpressionHandlerRegistry;
+
   shouldReloadRecord?: (
     queryExpression: FindRecord,
     options?: object
@@ -72,16 +178,36 @@ function defaultShouldReload(queryExpression: QueryExpression): boolean {
   return false;
 }
 
-function defaultShouldRetryQuery(query: Query, e: Error): boolean {
-  return e instanceof NetworkError;
+function defaultShouldRetryQuery(
+  this: RemoteStrategy,
+  query: Query,
+  e: Error
+): boolean {
+  return this.errorActions(e).indexOf('retry') !== -1;
 }
 
-function defaultShouldRetryUpdate(transform: Transform, e: Error): boolean {
-  return e instanceof NetworkError;
+function defaultShouldRetryUpdate(
+  this: RemoteStrategy,
+  transform: Transform,
+  e: Error
+): boolean {
+  return this.errorActions(e).indexOf('retry') !== -1;
+}
+
+interface InFlightQuery {
+  key: string;
+  id: string;
+  result: Promise<Transform[]>;
+  callers: string[];
 }
 
 export class RemoteStrategy extends Strategy {
   private _listeners: (() => void)[];
+  private _inFlightQueries: Map<string, InFlightQuery>;
+  private _inFlightCallers: Map<string, InFlightQuery>;
+  private _pendingRequests: Map<string, (e: Error) => void>;
+  private _cancelledRequests: Set<string>;
+  private _spans: Map<string, Span>;
 
   get source(): Source {
     return this._sources[0];
@@ -93,6 +219,17 @@ export class RemoteStrategy extends Strategy {
 
   cachePolicy: CachePolicy;
   retryPolicy: RetryPolicy;
+  circuitBreaker: CircuitBreaker;
+  retryBudget: RetryBudget;
+  rateLimiter: RateLimiter;
+  queryBatcher: QueryBatcher;
+  requestScheduler: RequestScheduler;
+  errorRules: ErrorRule[];
+  coalesceQueries: boolean;
+  reloadRules?: CompiledReloadRules;
+  timeout?: number;
+  tracer: Tracer;
+  expressionHandlers: ExpressionHandlerRegistry;
 
   shouldReloadRecord: (
     queryExpression: FindRecord,
@@ -146,16 +283,44 @@ export class RemoteStrategy extends Strategy {
 
     super(options);
 
+    this._inFlightQueries = new Map();
+    this._inFlightCallers = new Map();
+    this._pendingRequests = new Map();
+    this._cancelledRequests = new Set();
+    this._spans = new Map();
+
+    this.expressionHandlers =
+      options.expressionHandlers || defaultExpressionHandlers;
     this.retryPolicy = new RetryPolicy(options.retryPolicy);
-    this.cachePolicy = new CachePolicy(options.cachePolicy);
+    this.cachePolicy = new CachePolicy({
+      expressionHandlers: this.expressionHandlers,
+      ...options.cachePolicy
+    });
+    this.circuitBreaker = new CircuitBreaker(options.circuitBreaker);
+    this.retryBudget = new RetryBudget(options.retryBudget);
+    this.rateLimiter = new RateLimiter(options.rateLimiter);
+    this.queryBatcher = new QueryBatcher(options.batching);
+    this.requestScheduler = new RequestScheduler(options.scheduling);
+    this.errorRules = (options.errorRules || []).concat(defaultErrorRules);
+    this.coalesceQueries = options.coalesceQueries !== false;
+    this.timeout = options.timeout;
+    this.tracer = options.tracer || noopTracer;
+
+    if (options.reloadRules) {
+      this.reloadRules = compileReloadRules(options.reloadRules, expression =>
+        this.cachePolicy.loadedAt(expression)
+      );
+    }
+    const shouldReload = this.reloadRules
+      ? this.reloadRules.shouldReload
+      : defaultShouldReload;
 
-    this.shouldReloadRecord = options.shouldReloadRecord || defaultShouldReload;
-    this.shouldReloadRecords =
-      options.shouldReloadRecords || defaultShouldReload;
+    this.shouldReloadRecord = options.shouldReloadRecord || shouldReload;
+    this.shouldReloadRecords = options.shouldReloadRecords || shouldReload;
     this.shouldReloadRelatedRecord =
-      options.shouldReloadRelatedRecord || defaultShouldReload;
+      options.shouldReloadRelatedRecord || shouldReload;
     this.shouldReloadRelatedRecords =
-      options.shouldReloadRelatedRecords || defaultShouldReload;
+      options.shouldReloadRelatedRecords || shouldReload;
 
     this.shouldRetryQuery = options.shouldRetryQuery || defaultShouldRetryQuery;
     this.shouldRetryUpdate =
@@ -166,16 +331,511 @@ export class RemoteStrategy extends Strategy {
     return [];
   }
 
-  protected skipAndThrowError(e: Error) {
+  /**
+   * Classify a request error with `errorRules`.
+   */
+  errorActions(e: Error): ErrorAction[] {
+    return classifyError(this.errorRules, e);
+  }
+
+  invalidateRecord(record: RecordIdentity): Promise<void> {
+    return this.cachePolicy.invalidateRecord(record);
+  }
+
+  invalidateType(type: string): Promise<void> {
+    return this.cachePolicy.invalidateType(type);
+  }
+
+  invalidateRelationship(
+    record: RecordIdentity,
+    relationship: string
+  ): Promise<void> {
+    return this.cachePolicy.invalidateRelationship(record, relationship);
+  }
+
+  invalidateWhere(
+    predicate: (expression: QueryExpression, entry: CacheEntry) => boolean
+  ): Promise<void> {
+    return this.cachePolicy.invalidateWhere(predicate);
+  }
+
+  protected generateCacheInvalidationListener() {
+    return (transform: Transform) =>
+      this.cachePolicy.observeTransform(transform);
+  }
+
+  /**
+   * Pull a query from the target, unless its circuit is open or its rate
+   * limit is exceeded. An identical query already in flight is joined instead
+   * of sending another request: every caller settles with its result.
+   * `findRecord` queries are batched when `batching` is enabled, unless they
+   * are `blocking`: the source processes its queries one at a time, so a
+   * blocking query would never be joined by another one.
+   */
+  protected pull(
+    query: Query,
+    priority: RequestPriority = 'user',
+    blocking = false
+  ): Promise<Transform[]> {
+    return this.pendingRequest(
+      query.id,
+      this.coalescedPull(query, priority, blocking),
+      this.timeoutFor(query.options)
+    );
+  }
+
+  private coalescedPull(
+    query: Query,
+    priority: RequestPriority,
+    blocking: boolean
+  ): Promise<Transform[]> {
+    if (!this.coalesceQueries) {
+      return this.batchPull(query, priority, blocking);
+    }
+
+    const key = queryCacheKey(query, this.expressionHandlers);
+    const inFlight = this._inFlightQueries.get(key);
+
+    if (inFlight) {
+      this.requestScheduler.promote(inFlight.id, priority);
+      inFlight.callers.push(query.id);
+      this._inFlightCallers.set(query.id, inFlight);
+      return inFlight.result;
+    }
+
+    const result = this.batchPull(query, priority, blocking);
+    const shared: InFlightQuery = {
+      key,
+      id: query.id,
+      result,
+      callers: [query.id]
+    };
+    const settle = () => this.settleInFlightQuery(shared);
+
+    result.then(settle, settle);
+    this._inFlightQueries.set(key, shared);
+    this._inFlightCallers.set(query.id, shared);
+    return result;
+  }
+
+  private settleInFlightQuery(shared: InFlightQuery) {
+    if (this._inFlightQueries.get(shared.key) === shared) {
+      this._inFlightQueries.delete(shared.key);
+    }
+    for (let id of shared.callers) {
+      if (this._inFlightCallers.get(id) === shared) {
+        this._inFlightCallers.delete(id);
+      }
+    }
+  }
+
+  private batchPull(
+    query: Query,
+    priority: RequestPriority,
+    blocking: boolean
+  ): Promise<Transform[]> {
+    const send = (request: Query) =>
+      this.requestScheduler.schedule(request.id, priority, () =>
+        this.sendPull(request)
+      );
+
+    if (!blocking && this.queryBatcher.canBatch(query)) {
+      return this.queryBatcher.batch(query, send);
+    }
+    return send(query);
+  }
+
+  /**
+   * Send a single pull request to the target.
+   */
+  protected sendPull(query: Query): Promise<Transform[]> {
+    const error = this.checkRequest();
+    if (error) {
+      return Promise.reject(error);
+    }
+    this.circuitBreaker.attempt();
+    return (this.target as any).pull(query);
+  }
+
+  /**
+   * Push a transform to the target, unless its circuit is open or its rate
+   * limit is exceeded.
+   */
+  protected push(
+    transform: Transform,
+    priority: RequestPriority = 'user'
+  ): Promise<Transform[]> {
+    return this.pendingRequest(
+      transform.id,
+      this.requestScheduler.schedule(
+        transform.id,
+        priority,
+        () => this.sendPush(transform),
+        true
+      ),
+      this.timeoutFor(transform.options)
+    );
+  }
+
+  /**
+   * Send a single push request to the target.
+   */
+  protected sendPush(transform: Transform): Promise<Transform[]> {
+    const error = this.checkRequest();
+    if (error) {
+      return Promise.reject(error);
+    }
+    this.circuitBreaker.attempt();
+    return (this.target as any).push(transform);
+  }
+
+  /**
+   * Priority of a query: `user` when the query waits for it, `background`
+   * otherwise. It can be overridden with the `priority` query option, e.g.
+   * `prefetch`. Unknown priorities are ignored.
+   */
+  protected queryPriority(query: Query, blocking: boolean): RequestPriority {
+    if (query.options && isRequestPriority(query.options.priority)) {
+      return query.options.priority;
+    }
+    return blocking ? 'user' : 'background';
+  }
+
+  /**
+   * Priority of an update: `user` when the update waits for it, `outbox`
+   * otherwise. It can be overridden with the `priority` transform option.
+   * Unknown priorities are ignored.
+   */
+  protected updatePriority(
+    transform: Transform,
+    blocking: boolean
+  ): RequestPriority {
+    if (transform.options && isRequestPriority(transform.options.priority)) {
+      return transform.options.priority;
+    }
+    return blocking ? 'user' : 'outbox';
+  }
+
+  /**
+   * Cancel a pending pull or push. Its caller is rejected with a
+   * `RequestCancelledError` and the request is dropped from the scheduler,
+   * removed from the target queue, or skipped once it reaches the head of
+   * the queue. A coalesced query is only dropped once all of its callers are
+   * cancelled. Callers of a batched query which share the request are
+   * rejected too.
+   */
+  cancel(id: string) {
+    const reject = this._pendingRequests.get(id);
+    if (!reject) {
+      return;
+    }
+
+    const error = new RequestCancelledError(id);
+    reject(error);
+
+    const shared = this._inFlightCallers.get(id);
+    if (shared) {
+      this._inFlightCallers.delete(id);
+      shared.callers.splice(shared.callers.indexOf(id), 1);
+
+      if (shared.callers.length > 0) {
+        // Other callers still wait for the shared request.
+        return;
+      }
+      this.settleInFlightQuery(shared);
+      id = shared.id;
+    }
+
+    if (this.requestScheduler.cancel(id, error)) {
+      return;
+    }
+
+    for (let target of this.sources.slice(1)) {
+      const { requestQueue } = target;
+
+      if (this.isCurrentRequest(target, id)) {
+        requestQueue.skip(error);
+      } else if (
+        requestQueue.entries.some(({ data }: any) => data && data.id === id)
+      ) {
+        this._cancelledRequests.add(id);
+      }
+    }
+  }
+
+  /**
+   * Abort cancelled requests when the target processes them.
+   */
+  protected generateCancellationListeners(): (() => void)[] {
+    const beforeRequest = (request: Query | Transform) => {
+      if (this._cancelledRequests.delete(request.id)) {
+        throw new RequestCancelledError(request.id);
+      }
+    };
+
+    const listeners: (() => void)[] = [];
+    for (let target of this.sources.slice(1)) {
+      const { requestQueue } = target;
+
+      listeners.push(
+        target.on('beforePull', beforeRequest),
+        target.on('beforePush', beforeRequest),
+        requestQueue.on('fail', (task: any, e: Error) => {
+          if (e instanceof RequestCancelledError && requestQueue.error === e) {
+            requestQueue.skip(e);
+          }
+        })
+      );
+    }
+    return listeners;
+  }
+
+  /**
+   * Listeners recording the outcome of every request the targets report,
+   * retries included: successes settle the request (see `settleRequest`) and
+   * failures are recorded by the circuit breaker.
+   */
+  protected generateTargetListeners(): (() => void)[] {
+    const settle = (request: Query | Transform) =>
+      this.settleRequest(request.id);
+    const fail = (request: Query | Transform, e: Error) =>
+      this.circuitBreaker.record(e);
+
+    const listeners: (() => void)[] = [];
+    for (let target of this.sources.slice(1)) {
+      listeners.push(
+        target.on('pull', settle),
+        target.on('push', settle),
+        target.on('pullFail', fail),
+        target.on('pushFail', fail)
+      );
+    }
+    return listeners;
+  }
+
+  /**
+   * Record the success of a request with the circuit breaker and reset its
+   * retry state. A retried request also ends its span: its caller was already
+   * rejected by the first failure.
+   */
+  protected settleRequest(id: string) {
+    this.circuitBreaker.record();
+
+    if (this.retryPolicy.attempts(id) > 0) {
+      this.endSpan(id, 'remote');
+    }
+    this.retryPolicy.reset(id);
+  }
+
+  private timeoutFor(options?: any): number | undefined {
+    return options && options.timeout !== undefined
+      ? options.timeout
+      : this.timeout;
+  }
+
+  /**
+   * Track a request until it settles, so it can be cancelled, and reject it
+   * with a `RequestTimeoutError` if it does not settle within `timeout`.
+   */
+  private pendingRequest<T>(
+    id: string,
+    request: Promise<T>,
+    timeout?: number
+  ): Promise<T> {
+    return new Promise<T>((resolve, reject) => {
+      let timer: any;
+      const settle = () => {
+        clearTimeout(timer);
+        if (this._pendingRequests.get(id) === fail) {
+          this._pendingRequests.delete(id);
+        }
+      };
+      const fail = (e: Error) => {
+        settle();
+        reject(e);
+      };
+
+      if (timeout !== undefined) {
+        timer = setTimeout(
+          () => fail(new RequestTimeoutError(timeout)),
+          timeout
+        );
+      }
+      this._pendingRequests.set(id, fail);
+
+      request.then(result => {
+        settle();
+        resolve(result);
+      }, fail);
+    });
+  }
+
+  protected checkRequest(): RequestNotSentError | undefined {
+    if (!this.circuitBreaker.isAvailable) {
+      return new CircuitOpenError(this.target.name);
+    }
+    if (!this.rateLimiter.tryAcquire()) {
+      return new RateLimitExceededError(this.target.name);
+    }
+    this.retryBudget.recordRequest();
+  }
+
+  /**
+   * Retry a failed request if the retry policy, `shouldRetry` and the retry
+   * budget allow it. Otherwise resets its retry state and returns the error
+   * the request should fail with.
+   */
+  protected retryRequest(
+    id: string,
+    e: Error,
+    shouldRetry: () => boolean
+  ): Error | undefined {
+    if (!this.retryPolicy.canRetryRequest(id) || !shouldRetry()) {
+      this.endSpan(id, 'error', e);
+      this.retryPolicy.reset(id);
+      return e;
+    }
+    if (!this.retryBudget.canRetry) {
+      const error = new RetryBudgetExceededError(e);
+      this.endSpan(id, 'error', error);
+      this.retryPolicy.reset(id);
+      return error;
+    }
+
+    this.retryBudget.recordRetry();
+
+    const delay = this.retryPolicy.retryAfterDelay(e);
+    const span = this._spans.get(id);
+    if (span) {
+      span.addEvent('retry', {
+        attempt: this.retryPolicy.attempts(id) + 1,
+        error: e.message,
+        retryAfter: delay
+      });
+    }
+    this.retry(delay, id);
+  }
+
+  /**
+   * Open the span of a query or update. It stays open until `endSpan` is
+   * called with the same `id`.
+   */
+  protected startSpan(
+    name: string,
+    id: string,
+    attributes: SpanAttributes
+  ): Span {
+    const span = this.tracer.startSpan(name, { id, ...attributes });
+    this._spans.set(id, span);
+    return span;
+  }
+
+  /**
+   * End the span of a query or update with its final `result`.
+   */
+  protected endSpan(id: string, result: string, error?: Error) {
+    const span = this._spans.get(id);
+    if (!span) {
+      return;
+    }
+
+    this._spans.delete(id);
+    span.setAttributes({ result, retries: this.retryPolicy.attempts(id) });
+    span.end(error ? 'error' : 'ok', error);
+  }
+
+  /**
+   * End the span of a failed request, unless a retry is scheduled for it.
+   */
+  protected endFailedSpan(id: string, e: Error) {
+    if (this.retryPolicy.attempts(id) === 0) {
+      this.endSpan(id, 'error', e);
+    }
+  }
+
+  protected skipAndThrowError(e: Error, id?: string) {
     this.source.requestQueue.skip(e);
-    this.target.requestQueue.skip(e);
+    this.skipTargetRequest(e, id);
     throw e;
   }
 
-  protected retry(delay?: number) {
-    this.retryPolicy.retry(() => {
-      this.target.requestQueue.retry().catch(() => {});
-    }, delay || this.retryPolicy.currentDelay);
+  /**
+   * Skip the failed request at the head of the target queue. Nothing is
+   * skipped unless the queue is stalled on a failure or the request `id` is
+   * at its head (e.g. it timed out): the request may not have been sent, or
+   * another caller of a coalesced query already skipped it.
+   */
+  protected skipTargetRequest(e: Error, id?: string) {
+    if (
+      e instanceof RequestNotSentError ||
+      e instanceof RequestCancelledError
+    ) {
+      // Cancelled requests are handled by `cancel`.
+      return;
+    }
+
+    const target = this.requestTarget(id);
+    if (target.requestQueue.error || this.isCurrentRequest(target, id)) {
+      target.requestQueue.skip(e);
+    }
+  }
+
+  /**
+   * Schedule a retry of the target request queue head. When a request `id`
+   * is given, the retry is dropped if that request is no longer at the head
+   * of the queue. While the circuit is open, the retry is postponed.
+   */
+  protected retry(delay?: number, id?: string) {
+    this.retryPolicy.retry(
+      () => {
+        const target = this.requestTarget(id);
+        const { current } = target.requestQueue;
+
+        if (id && current && !this.isCurrentRequest(target, id)) {
+          this.retryPolicy.reset(id);
+          return;
+        }
+        if (!this.circuitBreaker.isAvailable) {
+          // Wait for the circuit to let a probe through.
+          this.retry(this.circuitBreaker.coolDown, id);
+          return;
+        }
+
+        this.circuitBreaker.attempt();
+        target.requestQueue.retry().catch(() => {});
+      },
+      delay,
+      id
+    );
+  }
+
+  /**
+   * The target a request was sent to: the target with that request at the
+   * head of its queue, or the primary target.
+   */
+  protected requestTarget(id?: string): Source {
+    const target = this.sources
+      .slice(1)
+      .find(target => this.isCurrentRequest(target, id));
+    return target || this.target;
+  }
+
+  /**
+   * Is the target processing a pull? Transforms it emits meanwhile are pull
+   * results, loaded into the cache policy by the query listeners rather than
+   * invalidating it.
+   */
+  protected isPulling(target: Source = this.target): boolean {
+    const { current } = target.requestQueue;
+    return !!current && current.type === 'pull';
+  }
+
+  /**
+   * Is a request at the head of a target queue?
+   */
+  protected isCurrentRequest(target: Source, id?: string): boolean {
+    const { current } = target.requestQueue;
+    return !!id && !!current && !!current.data && current.data.id === id;
   }
 
   async activate(
@@ -185,13 +845,35 @@ export class RemoteStrategy extends Strategy {
     await super.activate(coordinator, options);
 
     this.cachePolicy.setCache((this.source as any).cache);
+    try {
+      await this.cachePolicy.restore();
+    } catch (e) {
+      // Unreadable storage should not prevent activation: start with an
+      // empty cache instead.
+      this.cachePolicy.reset();
+    }
 
-    this._listeners = this.generateListeners();
+    this._listeners = [
+      ...this.generateListeners(),
+      ...this.generateCancellationListeners()
+    ];
   }
 
   async deactivate(): Promise<void> {
+    for (let id of Array.from(this._spans.keys())) {
+      this.endSpan(id, 'deactivated');
+    }
     this.retryPolicy.reset();
-    this.cachePolicy.clear();
+    this.cachePolicy.reset();
+    this.circuitBreaker.reset();
+    this.retryBudget.reset();
+    this.rateLimiter.reset();
+    this.queryBatcher.reset();
+    this.requestScheduler.reset();
+    this._inFlightQueries.clear();
+    this._inFlightCallers.clear();
+    this._pendingRequests.clear();
+    this._cancelledRequests.clear();
 
     this._listeners.map(off => off());
     await super.deactivate();
@@ -202,44 +884,8 @@ export class RemoteStrategy extends Strategy {
       return true;
     }
 
-    for (let expression of query.expressions) {
-      switch (expression.op) {
-        case 'findRecord':
-          if (
-            this.shouldReloadRecord(expression as FindRecord, query.options)
-          ) {
-            return true;
-          }
-          break;
-        case 'findRecords':
-          if (
-            this.shouldReloadRecords(expression as FindRecords, query.options)
-          ) {
-            return true;
-          }
-          break;
-        case 'findRelatedRecord':
-          if (
-            this.shouldReloadRelatedRecord(
-              expression as FindRelatedRecord,
-              query.options
-            )
-          ) {
-            return true;
-          }
-          break;
-        case 'findRelatedRecords':
-          if (
-            this.shouldReloadRelatedRecords(
-              expression as FindRelatedRecords,
-              query.options
-            )
-          ) {
-            return true;
-          }
-          break;
-      }
-    }
-    return false;
+    return query.expressions.some(expression =>
+      this.expressionHandlers.shouldReload(expression, query.options, this)
+    );
   }
 }
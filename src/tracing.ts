@@ -0,0 +1,107 @@
+export type SpanAttributeValue = string | number | boolean | undefined;
+
+export interface SpanAttributes {
+  [key: string]: SpanAttributeValue;
+}
+
+export type SpanStatus = 'ok' | 'error';
+
+export interface Span {
+  setAttribute(key: string, value: SpanAttributeValue): void;
+  setAttributes(attributes: SpanAttributes): void;
+  addEvent(name: string, attributes?: SpanAttributes): void;
+  end(status?: SpanStatus, error?: Error): void;
+}
+
+/**
+ * Opens spans around the decisions a strategy takes for a query or update.
+ */
+export interface Tracer {
+  startSpan(name: string, attributes?: SpanAttributes): Span;
+}
+
+const noopSpan: Span = {
+  setAttribute() {},
+  setAttributes() {},
+  addEvent() {},
+  end() {}
+};
+
+/**
+ * Default tracer, which records nothing.
+ */
+export const noopTracer: Tracer = {
+  startSpan() {
+    return noopSpan;
+  }
+};
+
+export interface SpanEvent {
+  name: string;
+  time: number;
+  attributes: SpanAttributes;
+}
+
+/**
+ * A span recorded by `InMemoryTracer`.
+ */
+export class RecordedSpan implements Span {
+  name: string;
+  attributes: SpanAttributes;
+  events: SpanEvent[] = [];
+  startTime = Date.now();
+  endTime?: number;
+  status?: SpanStatus;
+  error?: Error;
+
+  constructor(name: string, attributes: SpanAttributes = {}) {
+    this.name = name;
+    this.attributes = { ...attributes };
+  }
+
+  get ended(): boolean {
+    return this.endTime !== undefined;
+  }
+
+  setAttribute(key: string, value: SpanAttributeValue) {
+    this.attributes[key] = value;
+  }
+
+  setAttributes(attributes: SpanAttributes) {
+    Object.assign(this.attributes, attributes);
+  }
+
+  addEvent(name: string, attributes: SpanAttributes = {}) {
+    this.events.push({ name, time: Date.now(), attributes });
+  }
+
+  end(status: SpanStatus = 'ok', error?: Error) {
+    if (this.ended) {
+      return;
+    }
+    this.endTime = Date.now();
+    this.status = status;
+    this.error = error;
+  }
+}
+
+/**
+ * Tracer keeping spans in memory, e.g. to assert on them in tests.
+ */
+export class InMemoryTracer implements Tracer {
+  spans: RecordedSpan[] = [];
+
+  startSpan(name: string, attributes?: SpanAttributes): RecordedSpan {
+    const span = new RecordedSpan(name, attributes);
+    this.spans.push(span);
+    return span;
+  }
+
+  get finishedSpans(): RecordedSpan[] {
+    return this.spans.filter(span => span.ended);
+  }
+
+  reset() {
+    this.spans = [];
+  }
+}
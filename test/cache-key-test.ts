@@ -0,0 +1,140 @@
+import { queryCacheKey, queryExpressionCacheKey } from '../src/index';
+import { QueryExpression, QueryBuilder, buildQuery } from '@orbit/data';
+
+const { module, test } = QUnit;
+const qb = new QueryBuilder();
+
+module('queryExpressionCacheKey', function() {
+  function expressionFor(queryFn: (q: QueryBuilder) => any): QueryExpression {
+    return buildQuery(queryFn, undefined, undefined, qb).expressions[0];
+  }
+
+  test('keys of equivalent expressions collide', function(assert) {
+    const a: any = {
+      op: 'findRecords',
+      type: 'planet',
+      filter: [
+        { kind: 'attribute', op: 'equal', attribute: 'name', value: 'Earth' },
+        {
+          kind: 'relatedRecords',
+          op: 'some',
+          relation: 'moons',
+          records: [
+            { type: 'moon', id: 'a' },
+            { type: 'moon', id: 'b' }
+          ]
+        }
+      ],
+      sort: [{ kind: 'attribute', attribute: 'name', order: 'ascending' }],
+      page: { kind: 'offsetLimit', offset: 0, limit: 10 }
+    };
+    const b: any = {
+      page: { limit: 10, offset: 0, kind: 'offsetLimit' },
+      sort: [{ order: 'ascending', attribute: 'name', kind: 'attribute' }],
+      filter: [
+        {
+          records: [
+            { id: 'b', type: 'moon' },
+            { id: 'a', type: 'moon' }
+          ],
+          relation: 'moons',
+          op: 'some',
+          kind: 'relatedRecords'
+        },
+        { value: 'Earth', attribute: 'name', op: 'equal', kind: 'attribute' }
+      ],
+      type: 'planet',
+      op: 'findRecords'
+    };
+
+    assert.equal(
+      queryExpressionCacheKey(a),
+      queryExpressionCacheKey(b),
+      'filter, sort and page are canonical'
+    );
+
+    assert.equal(
+      queryExpressionCacheKey({
+        op: 'findRecords',
+        records: [
+          { type: 'planet', id: 'a' },
+          { type: 'planet', id: 'b' }
+        ]
+      } as any),
+      queryExpressionCacheKey({
+        op: 'findRecords',
+        records: [
+          { type: 'planet', id: 'b' },
+          { type: 'planet', id: 'a' }
+        ]
+      } as any),
+      'explicit records lists are canonical'
+    );
+
+    assert.equal(
+      queryExpressionCacheKey(
+        expressionFor(q => q.findRecord({ type: 'planet', id: 'a' }))
+      ),
+      'planet:a',
+      'findRecord keys use the record identity'
+    );
+  });
+
+  test('keys of distinct expressions do not collide', function(assert) {
+    const keys = [
+      expressionFor(q => q.findRecords('planet')),
+      expressionFor(q => q.findRecords('moon')),
+      expressionFor(q =>
+        q.findRecords('planet').filter({ attribute: 'name', value: 'Earth' })
+      ),
+      expressionFor(q =>
+        q.findRecords('planet').filter({ attribute: 'name', value: 'Mars' })
+      ),
+      expressionFor(q => q.findRecords('planet').sort('name')),
+      expressionFor(q => q.findRecords('planet').sort('-name')),
+      expressionFor(q => q.findRecords('planet').sort('name', 'order')),
+      expressionFor(q => q.findRecords('planet').sort('order', 'name')),
+      expressionFor(q =>
+        q.findRecords('planet').page({ offset: 0, limit: 10 })
+      ),
+      expressionFor(q =>
+        q.findRecords('planet').page({ offset: 10, limit: 10 })
+      ),
+      expressionFor(q =>
+        q.findRelatedRecords({ type: 'planet', id: 'a' }, 'moons')
+      ),
+      expressionFor(q =>
+        q.findRelatedRecord({ type: 'planet', id: 'a' }, 'star')
+      )
+    ].map(expression => queryExpressionCacheKey(expression));
+
+    assert.equal(new Set(keys).size, keys.length, 'all keys are distinct');
+  });
+});
+
+module('queryCacheKey', function() {
+  test('keys queries by expressions and options', function(assert) {
+    const a = buildQuery(
+      q => q.findRecords('planet'),
+      { include: ['moons'] },
+      undefined,
+      qb
+    );
+    const b = buildQuery(
+      q => q.findRecords('planet'),
+      { include: ['moons'] },
+      undefined,
+      qb
+    );
+    const c = buildQuery(
+      q => q.findRecords('planet'),
+      undefined,
+      undefined,
+      qb
+    );
+
+    assert.notEqual(a.id, b.id, 'queries have distinct ids');
+    assert.equal(queryCacheKey(a), queryCacheKey(b), 'equivalent queries');
+    assert.notEqual(queryCacheKey(a), queryCacheKey(c), 'options differ');
+  });
+});
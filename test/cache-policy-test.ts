@@ -0,0 +1,540 @@
+import {
+  CachePolicy,
+  MemoryCacheStorage,
+  BucketCacheStorage,
+  CacheEntries,
+  CacheEntry,
+  isNotModified
+} from '../src/index';
+import { Bucket } from '@orbit/core';
+import {
+  QueryBuilder,
+  TransformBuilder,
+  buildQuery,
+  buildTransform
+} from '@orbit/data';
+
+const { module, test } = QUnit;
+
+module('CachePolicy', function() {
+  const qb = new QueryBuilder();
+  const planets = buildQuery(
+    (q: QueryBuilder) => q.findRecords('planet'),
+    undefined,
+    undefined,
+    qb
+  );
+  const moons = buildQuery(
+    (q: QueryBuilder) => q.findRecords('moon'),
+    undefined,
+    undefined,
+    qb
+  );
+
+  class MyBucket extends Bucket {
+    items: { [key: string]: any } = {};
+
+    async getItem(key: string): Promise<any> {
+      return this.items[key];
+    }
+    async setItem(key: string, value: any): Promise<void> {
+      this.items[key] = value;
+    }
+    async removeItem(key: string): Promise<void> {
+      delete this.items[key];
+    }
+    async clear(): Promise<void> {
+      this.items = {};
+    }
+  }
+
+  test('can be instantiated', function(assert) {
+    const policy = new CachePolicy();
+
+    assert.ok(policy);
+    assert.strictEqual(policy.enabled, true, 'enabled by default');
+    assert.ok(
+      policy.storage instanceof MemoryCacheStorage,
+      'uses in-memory storage by default'
+    );
+  });
+
+  test('#load marks query expressions as loaded', async function(assert) {
+    const policy = new CachePolicy();
+
+    assert.notOk(policy.has(planets), 'not loaded yet');
+
+    await policy.load(planets);
+
+    assert.ok(policy.has(planets), 'loaded');
+    assert.notOk(policy.has(moons), 'other expressions are not loaded');
+  });
+
+  test('#restore rehydrates loaded expressions from storage', async function(assert) {
+    const storage = new BucketCacheStorage(new MyBucket());
+
+    await new CachePolicy({ storage }).load(planets);
+
+    const policy = new CachePolicy({ storage });
+    assert.notOk(policy.has(planets), 'not restored yet');
+
+    await policy.restore();
+    assert.ok(policy.has(planets), 'restored');
+  });
+
+  test('#restore skips expressions that expired', async function(assert) {
+    const storage = new MemoryCacheStorage();
+
+    await new CachePolicy({ storage }).load(planets);
+    const [[cacheKey, entry]] = await storage.getEntries();
+    await storage.setEntries([
+      [cacheKey, { ...entry, loadedAt: Date.now() - 2000 }]
+    ]);
+
+    const policy = new CachePolicy({ storage, expireIn: 1000 });
+    await policy.restore();
+
+    assert.notOk(policy.has(planets), 'expired expression is not restored');
+  });
+
+  test('#reset keeps persisted expressions while #clear removes them', async function(assert) {
+    const storage = new MemoryCacheStorage();
+    const policy = new CachePolicy({ storage });
+
+    await policy.load(planets);
+    policy.reset();
+    assert.notOk(policy.has(planets), 'reset in memory');
+    assert.equal((await storage.getEntries()).length, 1, 'still persisted');
+
+    await policy.restore();
+    await policy.clear();
+    assert.notOk(policy.has(planets), 'cleared in memory');
+    assert.equal((await storage.getEntries()).length, 0, 'cleared in storage');
+  });
+
+  test('#expireInFor resolves expiration by query, type, op and default', function(assert) {
+    const policy = new CachePolicy({
+      expireIn: 1000,
+      expireInByType: { planet: 3600000, notification: 5000 },
+      expireInByOp: { findRecord: 60000 }
+    });
+    const [planetsExpression] = planets.expressions;
+    const [moonsExpression] = moons.expressions;
+    const [moonExpression] = buildQuery(
+      (q: QueryBuilder) => q.findRecord({ type: 'moon', id: 'io' }),
+      undefined,
+      undefined,
+      qb
+    ).expressions;
+
+    assert.equal(
+      policy.expireInFor(planetsExpression, { expireIn: 10 }),
+      10,
+      'query options win'
+    );
+    assert.equal(
+      policy.expireInFor(planetsExpression),
+      3600000,
+      'type rule applies next'
+    );
+    assert.equal(
+      policy.expireInFor(moonExpression),
+      60000,
+      'op rule applies when no type rule matches'
+    );
+    assert.equal(
+      policy.expireInFor(moonsExpression),
+      1000,
+      'default applies last'
+    );
+  });
+
+  test('#has honors expiration per type and per query', async function(assert) {
+    const storage = new MemoryCacheStorage();
+    const loadingPolicy = new CachePolicy({ storage });
+    await loadingPolicy.load(planets);
+    await loadingPolicy.load(moons);
+    const entries: CacheEntries = (
+      await storage.getEntries()
+    ).map(([cacheKey, entry]): [string, CacheEntry] => [
+      cacheKey,
+      { ...entry, loadedAt: Date.now() - 2000 }
+    ]);
+    await storage.setEntries(entries);
+
+    const policy = new CachePolicy({
+      storage,
+      expireInByType: { planet: 3600000, moon: 1000 }
+    });
+    await policy.restore();
+
+    assert.ok(policy.has(planets), 'planets are still fresh');
+    assert.notOk(policy.has(moons), 'moons expired');
+
+    const freshPlanets = buildQuery(
+      (q: QueryBuilder) => q.findRecords('planet'),
+      { expireIn: 1000 },
+      undefined,
+      qb
+    );
+    assert.notOk(policy.has(freshPlanets), 'query options override rules');
+    assert.ok(policy.has(planets), 'query override does not evict the entry');
+  });
+
+  test('#has lets query options extend expiration', async function(assert) {
+    const storage = new MemoryCacheStorage();
+    await new CachePolicy({ storage }).load(planets);
+    const [[cacheKey, entry]] = await storage.getEntries();
+    await storage.setEntries([
+      [cacheKey, { ...entry, loadedAt: Date.now() - 5000 }]
+    ]);
+
+    const policy = new CachePolicy({ storage });
+    await policy.restore();
+    policy.expireIn = 1000;
+
+    const longerPlanets = buildQuery(
+      (q: QueryBuilder) => q.findRecords('planet'),
+      { expireIn: 60000 },
+      undefined,
+      qb
+    );
+    assert.notOk(policy.has(planets), 'expired by default');
+    assert.ok(policy.has(longerPlanets), 'query options extend expiration');
+
+    await policy.load(moons);
+    assert.ok(policy.has(longerPlanets), 'loading other queries keeps it');
+  });
+
+  test('#observeTransform invalidates expressions touched by a transform', async function(assert) {
+    const policy = new CachePolicy();
+    const jupiter = { type: 'planet', id: 'jupiter' };
+    const jupiterQuery = buildQuery(
+      (q: QueryBuilder) => q.findRecord(jupiter),
+      undefined,
+      undefined,
+      qb
+    );
+    const jupiterMoons = buildQuery(
+      (q: QueryBuilder) => q.findRelatedRecords(jupiter, 'moons'),
+      undefined,
+      undefined,
+      qb
+    );
+    const t = new TransformBuilder();
+
+    await policy.load(planets);
+    await policy.load(moons);
+    await policy.load(jupiterQuery);
+    await policy.load(jupiterMoons);
+
+    await policy.observeTransform(
+      buildTransform(t.addRecord({ type: 'planet', id: 'earth' }))
+    );
+    assert.notOk(policy.has(planets), 'addRecord invalidates type lists');
+    assert.ok(policy.has(moons), 'other lists are kept');
+    assert.ok(policy.has(jupiterQuery), 'records are kept');
+
+    await policy.observeTransform(
+      buildTransform(
+        t.addToRelatedRecords(jupiter, 'moons', { type: 'moon', id: 'io' })
+      )
+    );
+    assert.notOk(
+      policy.has(jupiterMoons),
+      'relationship operations invalidate related expressions'
+    );
+    assert.ok(policy.has(jupiterQuery), 'record is kept');
+
+    await policy.observeTransform(buildTransform(t.removeRecord(jupiter)));
+    assert.notOk(policy.has(jupiterQuery), 'removeRecord invalidates record');
+  });
+
+  test('#isStale tells fresh, stale and expired expressions apart', async function(assert) {
+    const storage = new MemoryCacheStorage();
+    await new CachePolicy({ storage }).load(planets);
+    const [[cacheKey, entry]] = await storage.getEntries();
+    await storage.setEntries([
+      [cacheKey, { ...entry, loadedAt: Date.now() - 2000 }]
+    ]);
+
+    const fresh = new CachePolicy({ storage, staleIn: 5000, expireIn: 10000 });
+    await fresh.restore();
+    assert.ok(fresh.has(planets), 'fresh expression is loaded');
+    assert.notOk(fresh.isStale(planets), 'fresh expression is not stale');
+
+    const stale = new CachePolicy({ storage, staleIn: 1000, expireIn: 10000 });
+    await stale.restore();
+    assert.ok(stale.has(planets), 'stale expression is still loaded');
+    assert.ok(stale.isStale(planets), 'stale expression is stale');
+
+    const expired = new CachePolicy({ storage, staleIn: 500, expireIn: 1000 });
+    await expired.restore();
+    assert.notOk(expired.has(planets), 'expired expression is not loaded');
+  });
+
+  test('#load evicts least recently used expressions beyond `maxEntries`', async function(assert) {
+    const policy = new CachePolicy({ maxEntries: 2 });
+    const stars = buildQuery(
+      (q: QueryBuilder) => q.findRecords('star'),
+      undefined,
+      undefined,
+      qb
+    );
+
+    await policy.load(planets);
+    await policy.load(moons);
+    assert.ok(policy.has(planets), 'planets are used again');
+
+    await policy.load(stars);
+    assert.equal(policy.size, 2, 'size is bounded');
+    assert.ok(policy.has(planets), 'recently used expression is kept');
+    assert.ok(policy.has(stars), 'new expression is kept');
+    assert.notOk(
+      policy.has(moons),
+      'least recently used expression is evicted'
+    );
+  });
+
+  test('#load sweeps expired expressions', async function(assert) {
+    const policy = new CachePolicy({ expireIn: 10 });
+    const stars = buildQuery(
+      (q: QueryBuilder) => q.findRecords('star'),
+      undefined,
+      undefined,
+      qb
+    );
+
+    await policy.load(planets);
+    await policy.load(moons);
+    assert.equal(policy.size, 2, 'entries are loaded');
+
+    await new Promise(resolve => setTimeout(resolve, 20));
+    assert.notOk(policy.has(planets), 'expired');
+
+    await policy.load(stars);
+    assert.equal(policy.size, 1, 'size stays flat without `maxEntries`');
+  });
+
+  test('#sweep removes expired expressions', async function(assert) {
+    const storage = new MemoryCacheStorage();
+    await new CachePolicy({ storage }).load(planets);
+    const [[cacheKey, entry]] = await storage.getEntries();
+    await storage.setEntries([
+      [cacheKey, { ...entry, loadedAt: Date.now() - 2000 }]
+    ]);
+
+    const policy = new CachePolicy({ storage, expireIn: 10000 });
+    await policy.restore();
+    await policy.load(moons);
+    assert.equal(policy.size, 2, 'entries are loaded');
+
+    policy.expireInByType = { planet: 1000 };
+    assert.equal(policy.sweep(), 1, 'one entry swept');
+    assert.equal(policy.size, 1, 'only fresh entries remain');
+  });
+
+  test('#has answers subsumed expressions', async function(assert) {
+    const policy = new CachePolicy();
+    const earth = { type: 'planet', id: 'earth' };
+    const io = { type: 'moon', id: 'io' };
+    const namedPlanets = buildQuery(
+      (q: QueryBuilder) =>
+        q.findRecords('planet').filter({ attribute: 'name', value: 'Earth' }),
+      undefined,
+      undefined,
+      qb
+    );
+    const earthQuery = buildQuery(
+      (q: QueryBuilder) => q.findRecord(earth),
+      undefined,
+      undefined,
+      qb
+    );
+    const ioQuery = buildQuery(
+      (q: QueryBuilder) => q.findRecord(io),
+      undefined,
+      undefined,
+      qb
+    );
+    const europaQuery = buildQuery(
+      (q: QueryBuilder) => q.findRecord({ type: 'moon', id: 'europa' }),
+      undefined,
+      undefined,
+      qb
+    );
+    const jupiterMoons = buildQuery(
+      (q: QueryBuilder) =>
+        q.findRelatedRecords({ type: 'planet', id: 'jupiter' }, 'moons'),
+      undefined,
+      undefined,
+      qb
+    );
+    const t = new TransformBuilder();
+
+    assert.notOk(policy.has(namedPlanets), 'filtered list is not loaded');
+    assert.notOk(policy.has(earthQuery), 'record is not loaded');
+
+    await policy.load(planets);
+    assert.ok(policy.has(namedPlanets), 'full list subsumes filtered list');
+    assert.ok(policy.has(earthQuery), 'full list subsumes records');
+    assert.notOk(policy.has(ioQuery), 'records of other types are not loaded');
+
+    await policy.load(jupiterMoons, [
+      buildTransform([t.updateRecord({ ...io, attributes: { name: 'Io' } })])
+    ]);
+    assert.ok(policy.has(ioQuery), 'returned records are loaded');
+    assert.notOk(policy.has(europaQuery), 'other records are not loaded');
+  });
+
+  test('#load marks included relationships as loaded', async function(assert) {
+    const policy = new CachePolicy();
+    const jupiter = { type: 'planet', id: 'jupiter' };
+    const io = { type: 'moon', id: 'io' };
+    const t = new TransformBuilder();
+    const result = [
+      buildTransform([
+        t.updateRecord({
+          ...jupiter,
+          relationships: {
+            moons: { data: [io] },
+            sun: { data: { type: 'star', id: 'sun' } }
+          }
+        }),
+        t.updateRecord({
+          ...io,
+          relationships: { craters: { data: [] } }
+        })
+      ])
+    ];
+    const jupiterQuery = buildQuery(
+      (q: QueryBuilder) => q.findRecord(jupiter),
+      { sources: { remote: { include: ['moons.craters', 'sun'] } } },
+      undefined,
+      qb
+    );
+    const jupiterMoons = buildQuery(
+      (q: QueryBuilder) => q.findRelatedRecords(jupiter, 'moons'),
+      undefined,
+      undefined,
+      qb
+    );
+    const jupiterSun = buildQuery(
+      (q: QueryBuilder) => q.findRelatedRecord(jupiter, 'sun'),
+      undefined,
+      undefined,
+      qb
+    );
+    const ioCraters = buildQuery(
+      (q: QueryBuilder) => q.findRelatedRecords(io, 'craters'),
+      undefined,
+      undefined,
+      qb
+    );
+    const ioPlanet = buildQuery(
+      (q: QueryBuilder) => q.findRelatedRecord(io, 'planet'),
+      undefined,
+      undefined,
+      qb
+    );
+
+    await policy.load(jupiterQuery, result);
+
+    assert.ok(policy.has(jupiterMoons), 'included hasMany is loaded');
+    assert.ok(policy.has(jupiterSun), 'included hasOne is loaded');
+    assert.ok(policy.has(ioCraters), 'nested include is loaded');
+    assert.notOk(policy.has(ioPlanet), 'other relationships are not loaded');
+  });
+
+  test('can invalidate expressions by record, type, relationship and predicate', async function(assert) {
+    const policy = new CachePolicy();
+    const jupiter = { type: 'planet', id: 'jupiter' };
+    const jupiterQuery = buildQuery(
+      (q: QueryBuilder) => q.findRecord(jupiter),
+      undefined,
+      undefined,
+      qb
+    );
+    const jupiterMoons = buildQuery(
+      (q: QueryBuilder) => q.findRelatedRecords(jupiter, 'moons'),
+      undefined,
+      undefined,
+      qb
+    );
+    const jupiterSun = buildQuery(
+      (q: QueryBuilder) => q.findRelatedRecord(jupiter, 'sun'),
+      undefined,
+      undefined,
+      qb
+    );
+
+    await policy.load(jupiterQuery);
+    await policy.load(jupiterMoons);
+    await policy.load(jupiterSun);
+    await policy.load(planets);
+    await policy.load(moons);
+
+    await policy.invalidateRelationship(jupiter, 'moons');
+    assert.notOk(policy.has(jupiterMoons), 'relationship is invalidated');
+    assert.ok(policy.has(jupiterSun), 'other relationships are kept');
+
+    await policy.invalidateRecord(jupiter);
+    assert.notOk(policy.has(jupiterQuery), 'record is invalidated');
+    assert.notOk(policy.has(jupiterSun), 'owned relationships are invalidated');
+    assert.notOk(policy.has(planets), 'subsuming lists are invalidated');
+    assert.ok(policy.has(moons), 'other types are kept');
+
+    await policy.load(planets);
+    await policy.invalidateType('moon');
+    assert.notOk(policy.has(moons), 'type is invalidated');
+    assert.ok(policy.has(planets), 'other types are kept');
+
+    await policy.invalidateWhere(expression => expression.op === 'findRecords');
+    assert.equal(policy.size, 0, 'matching expressions are invalidated');
+  });
+
+  test('stores validators returned alongside a pull', async function(assert) {
+    const storage = new MemoryCacheStorage();
+    const policy = new CachePolicy({ storage, expireIn: 1000 });
+    const t = new TransformBuilder();
+    const result = [
+      buildTransform([t.updateRecord({ type: 'planet', id: 'earth' })], {
+        validators: { etag: 'W/"1"' }
+      })
+    ];
+
+    assert.strictEqual(policy.validatorsFor(planets), undefined);
+
+    await policy.load(planets, result);
+    assert.deepEqual(
+      policy.validatorsFor(planets),
+      { etag: 'W/"1"' },
+      'validators are stored'
+    );
+    assert.strictEqual(
+      policy.validatorsFor(moons),
+      undefined,
+      'no validators for other expressions'
+    );
+
+    const [[cacheKey, entry]] = await storage.getEntries();
+    await storage.setEntries([
+      [cacheKey, { ...entry, loadedAt: Date.now() - 900 }]
+    ]);
+    policy.reset();
+    await policy.restore();
+
+    const notModified = [buildTransform([], { notModified: true })];
+    assert.ok(isNotModified(notModified), 'result is not modified');
+    assert.notOk(isNotModified(result), 'result is modified');
+
+    await policy.touch(planets);
+    const [[, touched]] = await storage.getEntries();
+    assert.ok(Date.now() - touched.loadedAt < 900, 'load time is refreshed');
+    assert.deepEqual(
+      touched.validators,
+      { etag: 'W/"1"' },
+      'validators are kept'
+    );
+  });
+});
@@ -0,0 +1,79 @@
+import { CircuitBreaker } from '../src/index';
+import { NetworkError } from '@orbit/data';
+
+const { module, test } = QUnit;
+
+module('CircuitBreaker', function() {
+  function wait(ms: number): Promise<void> {
+    return new Promise(resolve => setTimeout(resolve, ms));
+  }
+
+  async function fail(
+    breaker: CircuitBreaker,
+    e: any = new NetworkError(':(')
+  ) {
+    try {
+      await breaker.track(Promise.reject(e));
+    } catch (e) {
+      // expected
+    }
+  }
+
+  test('can be instantiated', function(assert) {
+    const breaker = new CircuitBreaker();
+
+    assert.ok(breaker);
+    assert.equal(breaker.state, 'closed', 'closed by default');
+    assert.ok(breaker.isAvailable, 'available by default');
+  });
+
+  test('opens after `failureThreshold` failures within `window`', async function(assert) {
+    const breaker = new CircuitBreaker({ failureThreshold: 2 });
+    const states: string[] = [];
+    breaker.on('stateChange', (state: string) => states.push(state));
+
+    await fail(breaker);
+    assert.equal(breaker.state, 'closed', 'still closed');
+
+    await fail(breaker, new Error('not a failure'));
+    assert.equal(breaker.state, 'closed', 'other errors are not failures');
+
+    await fail(breaker);
+    await fail(breaker);
+    assert.equal(breaker.state, 'open', 'opened');
+    assert.notOk(breaker.isAvailable, 'not available while open');
+    assert.deepEqual(states, ['open'], 'state change is emitted');
+  });
+
+  test('lets a single probe through once half-open', async function(assert) {
+    const breaker = new CircuitBreaker({ failureThreshold: 1, coolDown: 10 });
+
+    await fail(breaker);
+    assert.equal(breaker.state, 'open', 'opened');
+
+    await wait(20);
+    assert.equal(breaker.state, 'half-open', 'half-open after cool-down');
+    assert.ok(breaker.isAvailable, 'probe is let through');
+
+    let resolveProbe: () => void = () => {};
+    const probe = breaker.track(
+      new Promise<void>(resolve => (resolveProbe = resolve))
+    );
+    assert.notOk(breaker.isAvailable, 'only one probe at a time');
+
+    resolveProbe();
+    await probe;
+    assert.equal(breaker.state, 'closed', 'successful probe closes circuit');
+  });
+
+  test('a failed probe opens the circuit again', async function(assert) {
+    const breaker = new CircuitBreaker({ failureThreshold: 1, coolDown: 10 });
+
+    await fail(breaker);
+    await wait(20);
+    assert.equal(breaker.state, 'half-open');
+
+    await fail(breaker);
+    assert.equal(breaker.state, 'open', 'reopened');
+  });
+});
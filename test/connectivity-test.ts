@@ -0,0 +1,100 @@
+import {
+  BrowserConnectivity,
+  HeartbeatConnectivity,
+  alwaysOnLine,
+  defaultConnectivity
+} from '../src/index';
+
+const { module, test } = QUnit;
+
+module('connectivity', function() {
+  test('browser connectivity follows `navigator.onLine`', function(assert) {
+    const connectivity = new BrowserConnectivity();
+
+    assert.equal(connectivity.isOnLine, navigator.onLine);
+    assert.ok(
+      defaultConnectivity() instanceof BrowserConnectivity,
+      'default in a browser'
+    );
+  });
+
+  test('browser connectivity listens to window events', function(assert) {
+    const events: string[] = [];
+    const unsubscribe = new BrowserConnectivity().subscribe(
+      () => events.push('online'),
+      () => events.push('offline')
+    );
+
+    window.dispatchEvent(new Event('offline'));
+    window.dispatchEvent(new Event('online'));
+    unsubscribe();
+    window.dispatchEvent(new Event('offline'));
+
+    assert.deepEqual(events, ['offline', 'online']);
+  });
+
+  test('always online', function(assert) {
+    assert.ok(alwaysOnLine.isOnLine);
+    assert.equal(
+      typeof alwaysOnLine.subscribe(
+        () => {},
+        () => {}
+      ),
+      'function'
+    );
+  });
+
+  test('heartbeat probes the target', async function(assert) {
+    let reachable = true;
+    const events: string[] = [];
+    const connectivity = new HeartbeatConnectivity({
+      ping: async () => {
+        if (!reachable) {
+          throw new Error('unreachable');
+        }
+      }
+    });
+    const unsubscribe = connectivity.subscribe(
+      () => events.push('online'),
+      () => events.push('offline')
+    );
+
+    assert.ok(connectivity.isOnLine, 'online until a probe fails');
+    assert.ok(await connectivity.probe());
+
+    reachable = false;
+    assert.notOk(await connectivity.probe());
+    assert.notOk(await connectivity.probe());
+    assert.notOk(connectivity.isOnLine);
+
+    reachable = true;
+    assert.ok(await connectivity.probe());
+    unsubscribe();
+
+    assert.deepEqual(events, ['offline', 'online'], 'changes are notified');
+  });
+
+  test('heartbeat probes every `interval` while subscribed', async function(assert) {
+    let pings = 0;
+    const connectivity = new HeartbeatConnectivity({
+      ping: async () => pings++,
+      interval: 5
+    });
+
+    await new Promise(resolve => setTimeout(resolve, 20));
+    assert.equal(pings, 0, 'not probed without subscribers');
+
+    const unsubscribe = connectivity.subscribe(
+      () => {},
+      () => {}
+    );
+    await new Promise(resolve => setTimeout(resolve, 30));
+    unsubscribe();
+
+    const probed = pings;
+    assert.ok(probed > 0, 'probed');
+
+    await new Promise(resolve => setTimeout(resolve, 20));
+    assert.equal(pings, probed, 'stopped after unsubscribing');
+  });
+});
@@ -0,0 +1,78 @@
+import {
+  RequestCancelledError,
+  RequestTimeoutError,
+  classifyError,
+  defaultErrorRules,
+  errorStatus
+} from '../src/index';
+import { ClientError, NetworkError, ServerError } from '@orbit/data';
+
+const { module, test } = QUnit;
+
+function clientError(status: number): Error {
+  const e: any = new ClientError('Client Error');
+  e.response = { status };
+  return e;
+}
+
+module('error classification', function() {
+  test('`errorStatus` reads the response status', function(assert) {
+    assert.equal(errorStatus(clientError(404)), 404);
+    assert.strictEqual(errorStatus(new Error(':(')), undefined);
+  });
+
+  test('default rules', function(assert) {
+    const serverError: any = new ServerError('Bad Gateway');
+    serverError.response = { status: 502 };
+    const networkError: any = new NetworkError(':(');
+
+    assert.deepEqual(
+      classifyError(defaultErrorRules, networkError),
+      ['offline', 'retry'],
+      'network errors go offline and retry'
+    );
+    assert.deepEqual(
+      classifyError(defaultErrorRules, serverError),
+      ['catch'],
+      'server errors are not retried'
+    );
+    assert.deepEqual(
+      classifyError(defaultErrorRules, clientError(429)),
+      ['catch'],
+      'client errors are not retried'
+    );
+    assert.deepEqual(
+      classifyError(defaultErrorRules, new RequestTimeoutError(10)),
+      ['retry'],
+      'timeouts are retried'
+    );
+    assert.deepEqual(
+      classifyError(defaultErrorRules, new RequestCancelledError('a')),
+      ['skip'],
+      'cancelled requests are skipped'
+    );
+    assert.deepEqual(
+      classifyError(defaultErrorRules, new Error(':(')),
+      ['catch'],
+      'unknown errors are handed to catch'
+    );
+  });
+
+  test('first matching rule wins', function(assert) {
+    const rules = [
+      { error: ClientError, status: 404, action: 'skip' as 'skip' },
+      {
+        match: (e: Error) => e.message === 'invalid',
+        action: 'skip' as 'skip'
+      },
+      { error: ServerError, action: 'retry' as 'retry' },
+      ...defaultErrorRules
+    ];
+    const serverError: any = new ServerError('Bad Gateway');
+
+    assert.deepEqual(classifyError(rules, clientError(404)), ['skip']);
+    assert.deepEqual(classifyError(rules, serverError), ['retry']);
+    assert.deepEqual(classifyError(rules, clientError(403)), ['catch']);
+    assert.deepEqual(classifyError(rules, new Error('invalid')), ['skip']);
+  });
+});
@@ -0,0 +1,158 @@
+import {
+  CachePolicy,
+  ExpressionHandlerRegistry,
+  PessimisticStrategy,
+  defaultExpressionHandlers,
+  queryCacheKey,
+  queryExpressionCacheKey
+} from '../src/index';
+import { QueryBuilder, QueryExpression, buildQuery } from '@orbit/data';
+
+const { module, test } = QUnit;
+
+module('expression handlers', function() {
+  const qb = new QueryBuilder();
+  const earth = { type: 'planet', id: 'earth' };
+  const findNearby: QueryExpression = {
+    op: 'findNearby',
+    record: earth,
+    distance: 10
+  } as QueryExpression;
+
+  function registryWithNearby(): ExpressionHandlerRegistry {
+    const registry = new ExpressionHandlerRegistry(defaultExpressionHandlers);
+
+    registry.register<any>('findNearby', {
+      cacheKey: ({ record, distance }) => `nearby:${record.id}:${distance}`,
+      inCache: () => true,
+      shouldReload: (expression, options: any) =>
+        !!options && options.nearby === 'reload',
+      shouldBackgroundReload: () => false
+    });
+    return registry;
+  }
+
+  test('built-in ops are registered by default', function(assert) {
+    for (let op of [
+      'findRecord',
+      'findRecords',
+      'findRelatedRecord',
+      'findRelatedRecords'
+    ]) {
+      assert.ok(defaultExpressionHandlers.has(op), op);
+    }
+    assert.notOk(defaultExpressionHandlers.has('findNearby'));
+  });
+
+  test('built-in ops keep their cache keys', function(assert) {
+    const [findPlanet, findPlanets, findMoons] = buildQuery(
+      q => [
+        q.findRecord(earth),
+        q.findRecords('planet').sort('name'),
+        q.findRelatedRecords(earth, 'moons')
+      ],
+      undefined,
+      undefined,
+      qb
+    ).expressions;
+
+    assert.equal(queryExpressionCacheKey(findPlanet), 'planet:earth');
+    assert.equal(
+      queryExpressionCacheKey(findPlanets),
+      'findRecords:{"sort":[{"attribute":"name","kind":"attribute","order":"ascending"}],"type":"planet"}'
+    );
+    assert.equal(
+      queryExpressionCacheKey(findMoons),
+      'findRelatedRecords:{"record":"planet:earth","relationship":"moons"}'
+    );
+  });
+
+  test('unknown ops fall back to defaults', function(assert) {
+    const registry = new ExpressionHandlerRegistry();
+    const strategy = new PessimisticStrategy({ source: 's1', target: 's2' });
+
+    assert.equal(
+      registry.cacheKey(findNearby),
+      '{"distance":10,"op":"findNearby","record":{"id":"earth","type":"planet"}}',
+      'serialized with sorted keys'
+    );
+    assert.notOk(registry.inCache(findNearby, {} as any), 'not in cache');
+    assert.notOk(
+      registry.shouldReload(findNearby, undefined, strategy),
+      'no reload'
+    );
+    assert.ok(
+      registry.shouldBackgroundReload(findNearby, undefined, strategy),
+      'background reload'
+    );
+  });
+
+  test('custom ops register their hooks', function(assert) {
+    const registry = registryWithNearby();
+    const query = buildQuery(findNearby);
+
+    assert.equal(registry.cacheKey(findNearby), 'nearby:earth:10');
+    assert.equal(
+      queryExpressionCacheKey(findNearby, registry),
+      'nearby:earth:10'
+    );
+    assert.equal(
+      queryCacheKey(query, registry),
+      '{"expressions":["nearby:earth:10"]}'
+    );
+    assert.notOk(defaultExpressionHandlers.has('findNearby'), 'copied');
+
+    registry.unregister('findNearby');
+    assert.notOk(registry.has('findNearby'), 'unregistered');
+  });
+
+  test('registering requires a handler', function(assert) {
+    const registry = new ExpressionHandlerRegistry();
+
+    assert.throws(
+      () => registry.register('findNearby', undefined as any),
+      /The expression handler for `findNearby` should be an object/
+    );
+  });
+
+  test('cache policies check cache presence with the registry', function(assert) {
+    const policy = new CachePolicy({
+      expressionHandlers: registryWithNearby()
+    });
+    policy.setCache({} as any);
+
+    assert.ok(policy.has(buildQuery(findNearby)), 'in cache');
+    assert.notOk(new CachePolicy().has(buildQuery(findNearby)), 'unknown op');
+  });
+
+  test('strategies consult the registry', function(assert) {
+    const expressionHandlers = registryWithNearby();
+    const strategy = new PessimisticStrategy({
+      source: 's1',
+      target: 's2',
+      expressionHandlers
+    }) as any;
+
+    assert.strictEqual(strategy.expressionHandlers, expressionHandlers);
+    assert.strictEqual(
+      strategy.cachePolicy.expressionHandlers,
+      expressionHandlers,
+      'shared with the cache policy'
+    );
+    assert.ok(
+      strategy.shouldReload(buildQuery(findNearby, { nearby: 'reload' })),
+      'reload'
+    );
+    assert.notOk(strategy.shouldReload(buildQuery(findNearby)), 'no reload');
+    assert.notOk(
+      strategy.shouldBackgroundReload(buildQuery(findNearby)),
+      'no background reload'
+    );
+    assert.ok(
+      strategy.shouldBackgroundReload(
+        buildQuery(q => q.findRecord(earth), undefined, undefined, qb)
+      ),
+      'built-in ops use the strategy hooks'
+    );
+  });
+});
@@ -0,0 +1,136 @@
+import { QueryBatcher, RequestNotSentError } from '../src/index';
+import {
+  Query,
+  QueryBuilder,
+  RequestOptions,
+  Transform,
+  buildQuery,
+  buildTransform
+} from '@orbit/data';
+
+const { module, test } = QUnit;
+
+module('QueryBatcher', function() {
+  const qb = new QueryBuilder();
+  const earth = { type: 'planet', id: 'earth' };
+  const mars = { type: 'planet', id: 'mars' };
+  const moon = { type: 'moon', id: 'moon' };
+
+  function findRecord(record: any, options?: RequestOptions): Query {
+    return buildQuery(q => q.findRecord(record), options, undefined, qb);
+  }
+
+  test('is disabled by default', function(assert) {
+    const batcher = new QueryBatcher();
+
+    assert.notOk(batcher.enabled);
+    assert.notOk(batcher.canBatch(findRecord(earth)));
+  });
+
+  test('only batches single `findRecord` queries', function(assert) {
+    const batcher = new QueryBatcher({});
+
+    assert.ok(batcher.canBatch(findRecord(earth)));
+    assert.notOk(
+      batcher.canBatch(
+        buildQuery(q => q.findRecords('planet'), undefined, undefined, qb)
+      )
+    );
+    assert.notOk(
+      batcher.canBatch(
+        buildQuery(
+          q => [q.findRecord(earth), q.findRecord(mars)],
+          undefined,
+          undefined,
+          qb
+        )
+      )
+    );
+  });
+
+  test('sends queries of a tick as one request', async function(assert) {
+    const batcher = new QueryBatcher({});
+    const sent: Query[] = [];
+    const send = async (query: Query): Promise<Transform[]> => {
+      sent.push(query);
+      return [
+        buildTransform([
+          { op: 'updateRecord', record: { ...earth, attributes: {} } },
+          { op: 'updateRecord', record: { ...mars, attributes: {} } },
+          { op: 'updateRecord', record: { ...moon, attributes: {} } }
+        ] as any)
+      ];
+    };
+
+    const [a, b] = await Promise.all([
+      batcher.batch(findRecord(earth), send),
+      batcher.batch(findRecord(mars), send)
+    ]);
+
+    assert.equal(sent.length, 1, 'a single request is sent');
+    assert.equal(sent[0].expressions.length, 2, 'with both expressions');
+    assert.deepEqual(
+      (a[0].operations as any[]).map(operation => operation.record.id),
+      ['earth', 'moon'],
+      'first query gets its record and unrequested ones'
+    );
+    assert.deepEqual(
+      (b[0].operations as any[]).map(operation => operation.record.id),
+      ['mars', 'moon'],
+      'second query gets its record and unrequested ones'
+    );
+  });
+
+  test('batches by type and options', async function(assert) {
+    const batcher = new QueryBatcher({});
+    const sent: Query[] = [];
+    const send = async (query: Query): Promise<Transform[]> => {
+      sent.push(query);
+      return [];
+    };
+
+    await Promise.all([
+      batcher.batch(findRecord(earth), send),
+      batcher.batch(findRecord(moon), send),
+      batcher.batch(findRecord(mars, { include: ['moons'] }), send)
+    ]);
+
+    assert.equal(sent.length, 3, 'nothing to batch');
+  });
+
+  test('a full batch is sent right away', function(assert) {
+    const batcher = new QueryBatcher({ maxSize: 2 });
+    let sent = 0;
+    const send = async (): Promise<Transform[]> => {
+      sent++;
+      return [];
+    };
+
+    batcher.batch(findRecord(earth), send);
+    assert.equal(sent, 0, 'waiting for more queries');
+    batcher.batch(findRecord(mars), send);
+    assert.equal(sent, 1, 'batch is sent');
+  });
+
+  test('a failing batch fails every query', async function(assert) {
+    const batcher = new QueryBatcher({});
+    const send = async (): Promise<Transform[]> => {
+      throw new Error(':(');
+    };
+
+    const a = batcher.batch(findRecord(earth), send);
+    const b = batcher.batch(findRecord(mars), send);
+
+    await assert.rejects(a, /:\(/);
+    await assert.rejects(b, /:\(/);
+  });
+
+  test('`reset` cancels pending batches', async function(assert) {
+    const batcher = new QueryBatcher({ wait: 1000 });
+    const result = batcher.batch(findRecord(earth), async () => []);
+
+    batcher.reset();
+
+    await assert.rejects(result, RequestNotSentError);
+  });
+});
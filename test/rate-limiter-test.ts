@@ -0,0 +1,30 @@
+import { RateLimiter } from '../src/index';
+
+const { module, test } = QUnit;
+
+module('RateLimiter', function() {
+  function wait(ms: number): Promise<void> {
+    return new Promise(resolve => setTimeout(resolve, ms));
+  }
+
+  test('is disabled unless options are provided', function(assert) {
+    const limiter = new RateLimiter();
+
+    assert.notOk(limiter.enabled, 'disabled');
+    for (let i = 0; i < 100; i++) {
+      limiter.tryAcquire();
+    }
+    assert.ok(limiter.tryAcquire(), 'requests are unlimited');
+  });
+
+  test('allows bursts up to `capacity` then refills', async function(assert) {
+    const limiter = new RateLimiter({ capacity: 2, refillRate: 100 });
+
+    assert.ok(limiter.tryAcquire());
+    assert.ok(limiter.tryAcquire());
+    assert.notOk(limiter.tryAcquire(), 'bucket is empty');
+
+    await wait(20);
+    assert.ok(limiter.tryAcquire(), 'bucket is refilled');
+  });
+});
@@ -0,0 +1,107 @@
+import { compileReloadRules, PessimisticStrategy } from '../src/index';
+import { QueryExpression, QueryBuilder, buildQuery } from '@orbit/data';
+
+const { module, test } = QUnit;
+
+module('reload rules', function() {
+  const qb = new QueryBuilder();
+
+  function expressionFor(queryFn: (q: QueryBuilder) => any): QueryExpression {
+    return buildQuery(queryFn, undefined, undefined, qb).expressions[0];
+  }
+
+  const earth = { type: 'planet', id: 'earth' };
+  const findPlanet = expressionFor(q => q.findRecord(earth));
+  const findPlanets = expressionFor(q => q.findRecords('planet'));
+  const findMoons = expressionFor(q => q.findRelatedRecords(earth, 'moons'));
+  const findSun = expressionFor(q => q.findRelatedRecord(earth, 'sun'));
+  const findMoon = expressionFor(q =>
+    q.findRecord({ type: 'moon', id: 'luna' })
+  );
+
+  test('settings are resolved from the most specific key', function(assert) {
+    const rules = compileReloadRules(
+      {
+        '*': { backgroundReload: false },
+        planet: { reload: true },
+        'planet.moons': { reload: false, backgroundReload: true }
+      },
+      () => undefined
+    );
+
+    assert.ok(rules.shouldReload(findPlanet), 'type rule');
+    assert.ok(rules.shouldReload(findPlanets), 'type rule for lists');
+    assert.ok(rules.shouldReload(findSun), 'relationship falls back to type');
+    assert.notOk(rules.shouldReload(findMoons), 'relationship rule');
+    assert.notOk(rules.shouldReload(findMoon), 'no rule');
+
+    assert.notOk(rules.shouldBackgroundReload(findPlanet), 'wildcard rule');
+    assert.ok(rules.shouldBackgroundReload(findMoons), 'relationship rule');
+  });
+
+  test('defaults', function(assert) {
+    const rules = compileReloadRules({}, () => undefined);
+
+    assert.notOk(rules.shouldReload(findPlanet), 'no reload');
+    assert.ok(rules.shouldBackgroundReload(findPlanet), 'background reload');
+  });
+
+  test('`maxAge` reloads expressions loaded too long ago', function(assert) {
+    const now = Date.now();
+    const rules = compileReloadRules({ planet: { maxAge: 1000 } }, expression =>
+      expression === findPlanet ? now - 2000 : now
+    );
+
+    assert.ok(rules.shouldReload(findPlanet), 'too old');
+    assert.notOk(rules.shouldReload(findPlanets), 'recent enough');
+    assert.notOk(rules.shouldReload(findMoon), 'no rule');
+  });
+
+  test('rules are validated', function(assert) {
+    assert.throws(
+      () => compileReloadRules({ 'planet.moons.sun': {} }, () => undefined),
+      /Invalid reload rule key `planet.moons.sun`/
+    );
+    assert.throws(
+      () =>
+        compileReloadRules(
+          { planet: { reloadd: true } as any },
+          () => undefined
+        ),
+      /Unknown setting `reloadd` in the reload rule for `planet`/
+    );
+    assert.throws(
+      () =>
+        compileReloadRules(
+          { planet: { reload: 'yes' } as any },
+          () => undefined
+        ),
+      /`reload` in the reload rule for `planet` should be a boolean/
+    );
+    assert.throws(
+      () => compileReloadRules({ planet: { maxAge: -1 } }, () => undefined),
+      /`maxAge` in the reload rule for `planet` should be a positive number/
+    );
+  });
+
+  test('rules compile into strategy hooks', function(assert) {
+    const shouldReloadRecords = () => false;
+    const strategy = new PessimisticStrategy({
+      source: 's1',
+      target: 's2',
+      reloadRules: { '*': { reload: true, backgroundReload: false } },
+      shouldReloadRecords
+    });
+
+    assert.ok(strategy.shouldReloadRecord(findPlanet as any), 'compiled');
+    assert.strictEqual(
+      strategy.shouldReloadRecords,
+      shouldReloadRecords,
+      'explicit hooks win'
+    );
+    assert.notOk(
+      strategy.shouldBackgroundReloadRelatedRecords(findMoons as any),
+      'compiled'
+    );
+  });
+});
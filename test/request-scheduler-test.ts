@@ -0,0 +1,164 @@
+import { RequestNotSentError, RequestScheduler } from '../src/index';
+
+const { module, test } = QUnit;
+
+module('RequestScheduler', function() {
+  function deferred() {
+    let resolve: (value?: any) => void = () => {};
+    const promise = new Promise(r => (resolve = r));
+    return { promise, resolve };
+  }
+
+  test('is disabled by default', async function(assert) {
+    const scheduler = new RequestScheduler();
+    let sent = false;
+
+    scheduler.schedule('a', 'prefetch', async () => (sent = true));
+
+    assert.notOk(scheduler.enabled);
+    assert.ok(sent, 'sent right away');
+  });
+
+  test('limits the number of requests in flight', async function(assert) {
+    const scheduler = new RequestScheduler({ concurrency: 2 });
+    const requests = [deferred(), deferred(), deferred()];
+    const sent: number[] = [];
+
+    const results = requests.map(({ promise }, i) =>
+      scheduler.schedule(`${i}`, 'user', () => {
+        sent.push(i);
+        return promise;
+      })
+    );
+
+    assert.deepEqual(sent, [0, 1]);
+    assert.equal(scheduler.active, 2);
+    assert.equal(scheduler.pending, 1);
+
+    requests[1].resolve('b');
+    assert.equal(await results[1], 'b', 'settles with the result');
+    assert.deepEqual(sent, [0, 1, 2], 'next request is sent');
+
+    requests[0].resolve();
+    requests[2].resolve();
+    await Promise.all(results);
+
+    assert.equal(scheduler.active, 0);
+  });
+
+  test('sends requests by priority', async function(assert) {
+    const scheduler = new RequestScheduler({});
+    const first = deferred();
+    const sent: string[] = [];
+    const schedule = (id: string, priority: any) =>
+      scheduler.schedule(id, priority, async () => {
+        sent.push(id);
+        if (id === 'first') {
+          await first.promise;
+        }
+      });
+
+    const results = [
+      schedule('first', 'background'),
+      schedule('prefetch', 'prefetch'),
+      schedule('background', 'background'),
+      schedule('outbox', 'outbox'),
+      schedule('user', 'user'),
+      schedule('promoted', 'prefetch')
+    ];
+    scheduler.promote('promoted', 'user');
+    scheduler.promote('user', 'prefetch');
+
+    first.resolve();
+    await Promise.all(results);
+
+    assert.deepEqual(sent, [
+      'first',
+      'user',
+      'promoted',
+      'outbox',
+      'background',
+      'prefetch'
+    ]);
+  });
+
+  test('ordered requests keep their order', async function(assert) {
+    const scheduler = new RequestScheduler({});
+    const first = deferred();
+    const sent: string[] = [];
+    const schedule = (id: string, priority: any, ordered: boolean) =>
+      scheduler.schedule(
+        id,
+        priority,
+        async () => {
+          sent.push(id);
+          if (id === 'first') {
+            await first.promise;
+          }
+        },
+        ordered
+      );
+
+    const results = [
+      schedule('first', 'user', false),
+      schedule('outbox', 'outbox', true),
+      schedule('background', 'background', false),
+      schedule('update', 'user', true),
+      schedule('query', 'user', false)
+    ];
+    scheduler.promote('outbox', 'user');
+
+    first.resolve();
+    await Promise.all(results);
+
+    assert.deepEqual(sent, [
+      'first',
+      'query',
+      'outbox',
+      'update',
+      'background'
+    ]);
+  });
+
+  test('failed requests free their slot', async function(assert) {
+    const scheduler = new RequestScheduler({});
+
+    const a = scheduler.schedule('a', 'user', () =>
+      Promise.reject(new Error(':('))
+    );
+    const b = scheduler.schedule('b', 'user', async () => 'b');
+
+    await assert.rejects(a, /:\(/);
+    assert.equal(await b, 'b');
+  });
+
+  test('waiting requests can be cancelled', async function(assert) {
+    const scheduler = new RequestScheduler({});
+    const first = deferred();
+    const error = new Error('cancelled');
+    let sent = false;
+
+    scheduler.schedule('a', 'user', () => first.promise);
+    const b = scheduler.schedule('b', 'user', async () => (sent = true));
+
+    assert.notOk(scheduler.cancel('a', error), 'already sent');
+    assert.ok(scheduler.cancel('b', error), 'waiting');
+    await assert.rejects(b, /cancelled/);
+
+    first.resolve();
+    await first.promise;
+    assert.notOk(sent, 'cancelled request is not sent');
+  });
+
+  test('reset rejects waiting requests', async function(assert) {
+    const scheduler = new RequestScheduler({});
+
+    scheduler.schedule('a', 'user', () => new Promise(() => {}));
+    const b = scheduler.schedule('b', 'user', async () => {});
+
+    scheduler.reset();
+
+    await assert.rejects(b, RequestNotSentError);
+    assert.equal(scheduler.pending, 0);
+  });
+});
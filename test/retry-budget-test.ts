@@ -0,0 +1,42 @@
+import { RetryBudget } from '../src/index';
+
+const { module, test } = QUnit;
+
+module('RetryBudget', function() {
+  test('is disabled unless options are provided', function(assert) {
+    const budget = new RetryBudget();
+
+    assert.notOk(budget.enabled, 'disabled');
+    budget.recordRetry();
+    assert.ok(budget.canRetry, 'retries are unlimited');
+  });
+
+  test('allows `minRetries` retries whatever the ratio', function(assert) {
+    const budget = new RetryBudget({ ratio: 0.1, minRetries: 2 });
+
+    assert.ok(budget.canRetry);
+    budget.recordRetry();
+    assert.ok(budget.canRetry);
+    budget.recordRetry();
+    assert.notOk(budget.canRetry, 'budget is exceeded');
+  });
+
+  test('allows retries up to `ratio` of recent requests', function(assert) {
+    const budget = new RetryBudget({ ratio: 0.5, minRetries: 0 });
+
+    assert.notOk(budget.canRetry, 'no requests, no retries');
+
+    for (let i = 0; i < 4; i++) {
+      budget.recordRequest();
+    }
+    budget.recordRetry();
+    assert.ok(budget.canRetry, 'one retry out of two allowed');
+    budget.recordRetry();
+    assert.notOk(budget.canRetry, 'budget is exceeded');
+
+    budget.reset();
+    budget.recordRequest();
+    budget.recordRequest();
+    assert.ok(budget.canRetry, 'reset');
+  });
+});
@@ -0,0 +1,112 @@
+import { RetryPolicy, seededRandom } from '../src/index';
+import { ClientError, ServerError } from '@orbit/data';
+
+const { module, test } = QUnit;
+
+module('RetryPolicy', function() {
+  test('can be instantiated', function(assert) {
+    const policy = new RetryPolicy();
+
+    assert.ok(policy);
+    assert.strictEqual(policy.jitter, 'none', 'no jitter by default');
+    assert.equal(policy.nextDelay(), 200, 'delay is not randomized');
+  });
+
+  test('`seededRandom` is deterministic', function(assert) {
+    const a = seededRandom(42);
+    const b = seededRandom(42);
+    const c = seededRandom(7);
+    const sequence = [a(), a(), a()];
+
+    assert.deepEqual([b(), b(), b()], sequence, 'same seed, same sequence');
+    assert.notDeepEqual(
+      [c(), c(), c()],
+      sequence,
+      'other seed, other sequence'
+    );
+    assert.ok(
+      sequence.every(value => value >= 0 && value < 1),
+      'values are in [0, 1)'
+    );
+  });
+
+  test('`full` jitter picks a delay up to the backoff', function(assert) {
+    const policy = new RetryPolicy({ jitter: 'full', random: () => 0.5 });
+
+    assert.equal(policy.nextDelay(), 100);
+  });
+
+  test('`equal` jitter keeps at least half of the backoff', function(assert) {
+    const policy = new RetryPolicy({ jitter: 'equal', random: () => 0 });
+
+    assert.equal(policy.nextDelay(), 100);
+  });
+
+  test('`decorrelated` jitter grows from the previous delay', function(assert) {
+    const policy = new RetryPolicy({
+      jitter: 'decorrelated',
+      random: () => 1,
+      maxDelay: 1000
+    });
+
+    assert.equal(policy.nextDelay(), 600, 'up to three times the base delay');
+    assert.equal(policy.nextDelay(), 1000, 'capped by `maxDelay`');
+
+    policy.reset();
+    assert.equal(policy.nextDelay(), 600, 'reset restarts from base delay');
+  });
+
+  test('jittered delays are reproducible with a seeded random', function(assert) {
+    const a = new RetryPolicy({ jitter: 'full', random: seededRandom(1) });
+    const b = new RetryPolicy({ jitter: 'full', random: seededRandom(1) });
+
+    assert.deepEqual(
+      [a.nextDelay(), a.nextDelay()],
+      [b.nextDelay(), b.nextDelay()]
+    );
+  });
+
+  test('#retryAfterDelay reads server-provided hints', function(assert) {
+    const policy = new RetryPolicy({ maxDelay: 5000 });
+    const withField: any = new ServerError('Service Unavailable');
+    withField.retryAfter = 2;
+    const withHeader: any = new ClientError('Too Many Requests');
+    withHeader.response = { headers: { get: () => '120' } };
+
+    assert.equal(policy.retryAfterDelay(withField), 2000, 'reads field');
+    assert.equal(
+      policy.retryAfterDelay(withHeader),
+      5000,
+      'reads header, clamped to `maxDelay`'
+    );
+    assert.strictEqual(
+      policy.retryAfterDelay(new Error(':(')),
+      undefined,
+      'ignores other errors'
+    );
+  });
+
+  test('the retry-after extractor is configurable', function(assert) {
+    const policy = new RetryPolicy({ retryAfter: () => 300 });
+
+    assert.equal(policy.retryAfterDelay(new Error(':(')), 300);
+  });
+
+  test('tracks retries per request', function(assert) {
+    const policy = new RetryPolicy({ retries: 1, delay: 100 });
+
+    policy.retry(() => {}, undefined, 'a');
+    assert.notOk(policy.canRetryRequest('a'), 'budget of `a` is exhausted');
+    assert.ok(policy.canRetryRequest('b'), 'budget of `b` is untouched');
+    assert.equal(policy.backoffDelay('a'), 200, 'backoff of `a` grows');
+    assert.equal(policy.backoffDelay('b'), 100, 'backoff of `b` does not');
+
+    policy.retry(() => {}, undefined, 'b');
+    policy.reset('b');
+    assert.ok(policy.canRetryRequest('b'), 'reset `b`');
+    assert.notOk(policy.canRetryRequest('a'), '`a` is not reset');
+
+    policy.reset();
+    assert.ok(policy.canRetryRequest('a'), 'reset all requests');
+  });
+});
@@ -0,0 +1,147 @@
+import { FailoverStrategy } from '../../src/index';
+import Coordinator from '@orbit/coordinator';
+import {
+  Source,
+  NetworkError,
+  Query,
+  QueryBuilder,
+  Transform,
+  TransformBuilder,
+  buildQuery,
+  buildTransform,
+  pullable,
+  pushable,
+  updatable
+} from '@orbit/data';
+
+const { module, test } = QUnit;
+
+module('FailoverStrategy', function(hooks) {
+  const t = new TransformBuilder();
+  const qb = new QueryBuilder();
+  const tA = buildTransform(
+    [t.addRecord({ type: 'planet', id: 'a', attributes: { name: 'a' } })],
+    null,
+    'a'
+  );
+
+  let strategy: FailoverStrategy;
+  let coordinator: Coordinator;
+  let s1: any;
+  let s2: any;
+  let s3: any;
+
+  hooks.beforeEach(function() {
+    @pullable
+    @pushable
+    @updatable
+    class MySource extends Source {}
+
+    s1 = new MySource({ name: 's1' });
+    s2 = new MySource({ name: 's2' });
+    s3 = new MySource({ name: 's3' });
+  });
+
+  test('can be instantiated', function(assert) {
+    strategy = new FailoverStrategy({
+      source: 's1',
+      targets: ['s2', { name: 's3', writable: false }]
+    });
+
+    assert.ok(strategy);
+    assert.equal(
+      strategy.name,
+      'failover s1:{query|update} -> s2|s3:{pull|push}',
+      'name is based on source names by default'
+    );
+  });
+
+  test('assigns source and targets when activated', async function(assert) {
+    strategy = new FailoverStrategy({
+      source: 's1',
+      targets: ['s2', 's3']
+    });
+
+    coordinator = new Coordinator({
+      sources: [s1, s2, s3],
+      strategies: [strategy]
+    });
+
+    await coordinator.activate();
+
+    assert.strictEqual(strategy.source, s1, 'source is set');
+    assert.strictEqual(strategy.target, s2, 'primary target is set');
+    assert.deepEqual(strategy.targets, [s2, s3], 'targets are set');
+    assert.equal(s3.listeners('transform').length, 1, 'listeners installed');
+
+    await coordinator.deactivate();
+
+    assert.equal(s3.listeners('transform').length, 0, 'listeners removed');
+  });
+
+  test('pulls fail over to the next healthy target', async function(assert) {
+    strategy = new FailoverStrategy({
+      source: 's1',
+      targets: ['s2', { name: 's3', writable: false }]
+    });
+
+    coordinator = new Coordinator({
+      sources: [s1, s2, s3],
+      strategies: [strategy]
+    });
+
+    await coordinator.activate();
+
+    const pulls: string[] = [];
+    s2.pull = async () => {
+      pulls.push('s2');
+      throw new NetworkError(':(');
+    };
+    s3.pull = async () => {
+      pulls.push('s3');
+      return [tA];
+    };
+
+    const pull = (query: Query) => (strategy as any).pull(query);
+
+    assert.deepEqual(
+      await pull(
+        buildQuery(q => q.findRecords('planet'), undefined, undefined, qb)
+      ),
+      [tA],
+      'replica answers'
+    );
+    assert.equal(strategy.targetHealth('s2').state, 'open', 'primary is down');
+
+    await pull(
+      buildQuery(q => q.findRecords('moon'), undefined, undefined, qb)
+    );
+
+    assert.deepEqual(pulls, ['s2', 's3', 's3'], 'primary is skipped');
+  });
+
+  test('pushes are pinned to writable targets', async function(assert) {
+    strategy = new FailoverStrategy({
+      source: 's1',
+      targets: [{ name: 's2', writable: false }, 's3']
+    });
+
+    coordinator = new Coordinator({
+      sources: [s1, s2, s3],
+      strategies: [strategy]
+    });
+
+    await coordinator.activate();
+
+    s2.push = async (): Promise<Transform[]> => {
+      assert.ok(false, 'read-only target is not pushed to');
+      return [];
+    };
+    s3.push = async (transform: Transform): Promise<Transform[]> => {
+      assert.strictEqual(transform, tA, 'writable target is pushed to');
+      return [];
+    };
+
+    await (strategy as any).push(tA);
+  });
+});
@@ -1,11 +1,21 @@
-import { OptimisticStrategy } from '../../src/index';
+import {
+  InMemoryTracer,
+  OptimisticStrategy,
+  RateLimitExceededError,
+  RetryBudgetExceededError,
+  alwaysOnLine
+} from '../../src/index';
 import Coordinator from '@orbit/coordinator';
 import {
+  NetworkError,
   Source,
+  QueryBuilder,
   Transform,
   TransformBuilder,
+  pullable,
   pushable,
   updatable,
+  buildQuery,
   buildTransform
 } from '@orbit/data';
 
@@ -74,7 +84,7 @@ module('OptimisticStrategy', function(hooks) {
   });
 
   test('installs listeners on activate and removes them on deactivate', async function(assert) {
-    assert.expect(25);
+    assert.expect(27);
 
     strategy = new OptimisticStrategy({
       source: 's1',
@@ -127,6 +137,7 @@ module('OptimisticStrategy', function(hooks) {
 
     assert.equal(s1.listeners('beforeQuery').length, 1, 'listeners installed');
     assert.equal(s1.listeners('beforeUpdate').length, 1, 'listeners installed');
+    assert.equal(s1.listeners('update').length, 1, 'listeners installed');
     assert.equal(s1.listeners('queryFail').length, 1, 'listeners installed');
     assert.equal(s1.listeners('updateFail').length, 1, 'listeners installed');
 
@@ -151,6 +162,7 @@ module('OptimisticStrategy', function(hooks) {
 
     assert.equal(s1.listeners('beforeQuery').length, 0, 'listeners removed');
     assert.equal(s1.listeners('beforeUpdate').length, 0, 'listeners removed');
+    assert.equal(s1.listeners('update').length, 0, 'listeners removed');
     assert.equal(s1.listeners('queryFail').length, 0, 'listeners removed');
     assert.equal(s1.listeners('updateFail').length, 0, 'listeners removed');
 
@@ -207,6 +219,262 @@ module('OptimisticStrategy', function(hooks) {
     await s1.update(tA);
   });
 
+  test('follows its connectivity provider', async function(assert) {
+    let isOnLine = false;
+    let listeners: { onLine: () => void; offLine: () => void } | undefined;
+
+    strategy = new OptimisticStrategy({
+      source: 's1',
+      target: 's2',
+      connectivity: {
+        get isOnLine() {
+          return isOnLine;
+        },
+        subscribe(onLine, offLine) {
+          listeners = { onLine, offLine };
+          return () => (listeners = undefined);
+        }
+      }
+    });
+
+    coordinator = new Coordinator({
+      sources: [s1, s2],
+      strategies: [strategy]
+    });
+
+    assert.notOk(strategy.isOnLine, 'initial connectivity');
+
+    await coordinator.activate();
+
+    isOnLine = true;
+    (listeners as any).onLine();
+    assert.ok(strategy.isOnLine, 'back online');
+
+    (listeners as any).offLine();
+    assert.notOk(strategy.isOnLine, 'offline');
+
+    await coordinator.deactivate();
+    assert.strictEqual(listeners, undefined, 'unsubscribed on deactivate');
+  });
+
+  test('hands updates over the retry budget or the rate limit to catch', async function(assert) {
+    const caught: Error[] = [];
+
+    strategy = new OptimisticStrategy({
+      source: 's1',
+      target: 's2',
+      connectivity: alwaysOnLine,
+      retryBudget: { minRetries: 1, ratio: 0 },
+      rateLimiter: { capacity: 1, refillRate: 0.001 },
+      catch: (transform: Transform, e: Error) => caught.push(e)
+    });
+
+    coordinator = new Coordinator({
+      sources: [s1, s2],
+      strategies: [strategy]
+    });
+
+    await coordinator.activate();
+
+    s2._push = async (): Promise<Transform[]> => [];
+
+    const beforeUpdate = (strategy as any).generateBeforeUpdateListener();
+    const networkError: any = new NetworkError(':(');
+
+    beforeUpdate(tA);
+    await new Promise(resolve => setTimeout(resolve, 0));
+    const updateFail = (strategy as any).generateUpdateFailListener();
+    updateFail(tA, networkError);
+    assert.equal(strategy.retryPolicy.attempts(tA.id), 1, 'retried once');
+    updateFail(tA, networkError);
+    assert.ok(caught[0] instanceof RetryBudgetExceededError, 'retry budget');
+    assert.equal(strategy.retryPolicy.attempts(tA.id), 0, 'retry state reset');
+
+    beforeUpdate(tB);
+    await new Promise(resolve => setTimeout(resolve, 0));
+    assert.ok(caught[1] instanceof RateLimitExceededError, 'rate limit');
+  });
+
+  test('keeps cached lists when pull results are synced', async function(assert) {
+    @pullable
+    @pushable
+    class RemoteSource extends Source {}
+
+    const target: any = new RemoteSource({ name: 's2' });
+    const earth = { type: 'planet', id: 'earth' };
+
+    target._pull = async (): Promise<Transform[]> => {
+      const transforms = [buildTransform(t.addRecord(earth))];
+      await target.transformed(transforms);
+      return transforms;
+    };
+    target._push = async (transform: Transform): Promise<Transform[]> => {
+      await target.transformed([transform]);
+      return [];
+    };
+    s1.sync = async () => {};
+
+    strategy = new OptimisticStrategy({
+      source: 's1',
+      target: 's2',
+      connectivity: alwaysOnLine
+    });
+
+    coordinator = new Coordinator({
+      sources: [s1, target],
+      strategies: [strategy]
+    });
+
+    await coordinator.activate();
+
+    const qb = new QueryBuilder();
+    const planets = buildQuery(
+      q => q.findRecords('planet').page({ offset: 0, limit: 10 }),
+      undefined,
+      undefined,
+      qb
+    );
+    await strategy.cachePolicy.load(planets);
+
+    await (strategy as any).generateBeforeQueryListener()(
+      buildQuery(q => q.findRecord(earth), undefined, undefined, qb)
+    );
+    assert.ok(strategy.cachePolicy.has(planets), 'pull results are skipped');
+
+    await target.push(
+      buildTransform(t.addRecord({ type: 'planet', id: 'mars' }))
+    );
+    assert.notOk(strategy.cachePolicy.has(planets), 'pushes invalidate lists');
+  });
+
+  test('pulls again after a failure without connectivity events', async function(assert) {
+    @pullable
+    class PullableSource extends Source {}
+
+    const target: any = new PullableSource({ name: 's2' });
+    let pulls = 0;
+
+    target._pull = async (): Promise<Transform[]> => {
+      if (pulls++ === 0) {
+        throw new NetworkError(':(');
+      }
+      return [];
+    };
+
+    strategy = new OptimisticStrategy({
+      source: 's1',
+      target: 's2',
+      connectivity: alwaysOnLine,
+      retryPolicy: { enabled: false }
+    });
+
+    coordinator = new Coordinator({
+      sources: [s1, target],
+      strategies: [strategy]
+    });
+
+    await coordinator.activate();
+
+    const qb = new QueryBuilder();
+    const listener = (strategy as any).generateBeforeQueryListener();
+
+    await listener(
+      buildQuery(q => q.findRecords('planet'), undefined, undefined, qb)
+    );
+    assert.notOk(strategy.isOnLine, 'offline after a network error');
+
+    await listener(
+      buildQuery(q => q.findRecords('moon'), undefined, undefined, qb)
+    );
+    assert.equal(pulls, 2, 'the next query is pulled');
+    assert.ok(strategy.isOnLine, 'back online');
+
+    await coordinator.deactivate();
+  });
+
+  test('traces failed background reloads', async function(assert) {
+    const tracer = new InMemoryTracer();
+
+    strategy = new OptimisticStrategy({
+      source: 's1',
+      target: 's2',
+      connectivity: alwaysOnLine,
+      cachePolicy: { staleIn: 1 },
+      timeout: 10,
+      tracer
+    });
+
+    coordinator = new Coordinator({
+      sources: [s1, s2],
+      strategies: [strategy]
+    });
+
+    await coordinator.activate();
+
+    s2.pull = () => new Promise(() => {});
+
+    const query = buildQuery(
+      q => q.findRecords('planet'),
+      undefined,
+      undefined,
+      new QueryBuilder()
+    );
+    await strategy.cachePolicy.load(query);
+    await new Promise(resolve => setTimeout(resolve, 5));
+
+    (strategy as any).generateBeforeQueryListener()(query);
+    await new Promise(resolve => setTimeout(resolve, 20));
+
+    const [span] = tracer.spans;
+    assert.equal(span.attributes.blocking, false, 'reloaded in background');
+    assert.ok(span.ended, 'span is ended');
+    assert.equal(span.attributes.result, 'error');
+  });
+
+  test('handles a failed blocking query once', async function(assert) {
+    @pullable
+    class PullableSource extends Source {}
+
+    const tracer = new InMemoryTracer();
+    const target: any = new PullableSource({ name: 's2' });
+
+    target._pull = async () => {
+      throw new NetworkError(':(');
+    };
+
+    strategy = new OptimisticStrategy({
+      source: 's1',
+      target: 's2',
+      connectivity: { isOnLine: true, subscribe: () => () => {} },
+      retryPolicy: { delay: 1000 },
+      tracer
+    });
+
+    coordinator = new Coordinator({
+      sources: [s1, target],
+      strategies: [strategy]
+    });
+
+    await coordinator.activate();
+
+    const query = buildQuery(
+      q => q.findRecords('planet'),
+      undefined,
+      undefined,
+      new QueryBuilder()
+    );
+    await (strategy as any).generateBeforeQueryListener()(query);
+
+    const [span] = tracer.spans;
+    assert.deepEqual(
+      span.events.map(event => event.name),
+      ['retry'],
+      'a single retry is scheduled'
+    );
+
+    await coordinator.deactivate();
+  });
+
   // test('with `passHints: true` and `blocking: true`, will pass `hints` that result from applying the target action', async function(assert) {
   //   assert.expect(5);
 
@@ -1,11 +1,25 @@
-import { PessimisticStrategy } from '../../src/index';
+import {
+  CircuitOpenError,
+  InMemoryTracer,
+  PessimisticStrategy,
+  RateLimitExceededError,
+  RequestCancelledError,
+  RequestTimeoutError,
+  RetryBudgetExceededError
+} from '../../src/index';
 import Coordinator from '@orbit/coordinator';
 import {
+  NetworkError,
   Source,
+  Query,
+  QueryBuilder,
+  Schema,
   Transform,
   TransformBuilder,
+  pullable,
   pushable,
   updatable,
+  buildQuery,
   buildTransform
 } from '@orbit/data';
 
@@ -13,6 +27,7 @@ const { module, test } = QUnit;
 
 module('PessimisticStrategy', function(hooks) {
   const t = new TransformBuilder();
+  const qb = new QueryBuilder();
   const tA = buildTransform(
     [t.addRecord({ type: 'planet', id: 'a', attributes: { name: 'a' } })],
     null,
@@ -74,7 +89,7 @@ module('PessimisticStrategy', function(hooks) {
   });
 
   test('installs listeners on activate and removes them on deactivate', async function(assert) {
-    assert.expect(21);
+    assert.expect(23);
 
     strategy = new PessimisticStrategy({
       source: 's1',
@@ -127,6 +142,7 @@ module('PessimisticStrategy', function(hooks) {
 
     assert.equal(s1.listeners('beforeQuery').length, 1, 'listeners installed');
     assert.equal(s1.listeners('beforeUpdate').length, 1, 'listeners installed');
+    assert.equal(s1.listeners('update').length, 1, 'listeners installed');
     assert.equal(s1.listeners('queryFail').length, 1, 'listeners installed');
     assert.equal(s1.listeners('updateFail').length, 1, 'listeners installed');
 
@@ -147,6 +163,7 @@ module('PessimisticStrategy', function(hooks) {
 
     assert.equal(s1.listeners('beforeQuery').length, 0, 'listeners removed');
     assert.equal(s1.listeners('beforeUpdate').length, 0, 'listeners removed');
+    assert.equal(s1.listeners('update').length, 0, 'listeners removed');
     assert.equal(s1.listeners('queryFail').length, 0, 'listeners removed');
     assert.equal(s1.listeners('updateFail').length, 0, 'listeners removed');
 
@@ -203,6 +220,732 @@ module('PessimisticStrategy', function(hooks) {
     await s1.update(tA);
   });
 
+  test('keeps working when cache storage fails', async function(assert) {
+    const failure = () => Promise.reject(new Error('storage is unavailable'));
+
+    strategy = new PessimisticStrategy({
+      source: 's1',
+      target: 's2',
+      cachePolicy: {
+        storage: { getEntries: failure, setEntries: failure, clear: failure }
+      }
+    });
+
+    coordinator = new Coordinator({
+      sources: [s1, s2],
+      strategies: [strategy]
+    });
+
+    await coordinator.activate();
+    assert.equal(strategy.cachePolicy.size, 0, 'activated with an empty cache');
+
+    s2.pull = async (): Promise<Transform[]> => [];
+
+    const query = buildQuery(
+      q => q.findRecords('planet'),
+      undefined,
+      undefined,
+      qb
+    );
+    await (strategy as any).generateBeforeQueryListener()(query);
+    await new Promise(resolve => setTimeout(resolve, 0));
+
+    assert.ok(strategy.cachePolicy.has(query), 'loaded in memory');
+  });
+
+  test('short-circuits requests while the target is down', async function(assert) {
+    strategy = new PessimisticStrategy({
+      source: 's1',
+      target: 's2',
+      retryPolicy: { delay: 1 },
+      circuitBreaker: { failureThreshold: 1, coolDown: 50 }
+    });
+
+    coordinator = new Coordinator({
+      sources: [s1, s2],
+      strategies: [strategy]
+    });
+
+    await coordinator.activate();
+
+    const states: string[] = [];
+    strategy.circuitBreaker.on('stateChange', (state: string) =>
+      states.push(state)
+    );
+
+    let pushes = 0;
+    s2._push = async (): Promise<Transform[]> => {
+      if (pushes++ === 0) {
+        throw new NetworkError(':(');
+      }
+      return [];
+    };
+    s2.pull = async (): Promise<Transform[]> => [];
+
+    await assert.rejects(s1.update(tA), NetworkError);
+    assert.equal(strategy.circuitBreaker.state, 'open', 'opened');
+
+    await new Promise(resolve => setTimeout(resolve, 20));
+    assert.equal(pushes, 1, 'retries are held back while open');
+
+    await assert.rejects((strategy as any).push(tB), CircuitOpenError);
+    await assert.rejects(
+      (strategy as any).pull(
+        buildQuery(q => q.findRecords('planet'), undefined, undefined, qb)
+      ),
+      CircuitOpenError
+    );
+    assert.equal(pushes, 1, 'pull and push are short-circuited');
+
+    await new Promise(resolve => setTimeout(resolve, 60));
+    assert.equal(pushes, 2, 'the retry is the half-open probe');
+    assert.equal(strategy.circuitBreaker.state, 'closed', 'probe succeeded');
+    assert.deepEqual(states, ['open', 'half-open', 'closed']);
+  });
+
+  test('invalidates cached queries with target transforms but not pull results', async function(assert) {
+    @pullable
+    @pushable
+    class RemoteSource extends Source {}
+
+    const schema = new Schema({
+      models: {
+        planet: {
+          attributes: { name: { type: 'string' } },
+          keys: { remoteId: {} },
+          relationships: {
+            moons: { type: 'hasMany', model: 'moon', inverse: 'planet' }
+          }
+        },
+        moon: {
+          relationships: {
+            planet: { type: 'hasOne', model: 'planet', inverse: 'moons' }
+          }
+        }
+      }
+    });
+    const target: any = new RemoteSource({ name: 's2' });
+    const earth = { type: 'planet', id: 'earth' };
+
+    target._pull = async (): Promise<Transform[]> => {
+      const transforms = [
+        buildTransform(t.addRecord({ ...earth, attributes: { name: 'Earth' } }))
+      ];
+      await target.transformed(transforms);
+      return transforms;
+    };
+    target._push = async (transform: Transform): Promise<Transform[]> => {
+      await target.transformed([transform]);
+      return [];
+    };
+    s1.cache = {
+      schema,
+      getRecordSync: (): undefined => undefined,
+      getRelatedRecordSync: (): undefined => undefined,
+      getRelatedRecordsSync: (): undefined => undefined
+    };
+    s1.sync = async () => {};
+
+    strategy = new PessimisticStrategy({
+      source: 's1',
+      target: 's2'
+    });
+
+    coordinator = new Coordinator({
+      sources: [s1, target],
+      strategies: [strategy]
+    });
+
+    await coordinator.activate();
+
+    const query = (build: (q: QueryBuilder) => any) =>
+      buildQuery(build, undefined, undefined, qb);
+    const firstPlanets = query(q =>
+      q.findRecords('planet').page({ offset: 0, limit: 10 })
+    );
+    const named = query(q =>
+      q.findRecords('planet').filter({ attribute: 'name', value: 'Earth' })
+    );
+    const earthQuery = query(q => q.findRecord(earth));
+    const earthMoons = query(q => q.findRelatedRecords(earth, 'moons'));
+    const { cachePolicy } = strategy;
+
+    await cachePolicy.load(firstPlanets);
+    await cachePolicy.load(named);
+    await cachePolicy.load(earthMoons);
+
+    await (strategy as any).generateBeforeQueryListener()(earthQuery);
+    assert.ok(cachePolicy.has(earthQuery), 'pull result is loaded');
+    assert.ok(cachePolicy.has(named), 'pull results invalidate nothing');
+    assert.ok(cachePolicy.has(earthMoons));
+
+    await target.push(
+      buildTransform(t.replaceAttribute(earth, 'name', 'Terra'))
+    );
+    assert.notOk(cachePolicy.has(named), 'lists filtered by the attribute');
+    assert.ok(cachePolicy.has(firstPlanets), 'other lists are kept');
+
+    await target.push(
+      buildTransform(
+        t.addRecord({
+          type: 'moon',
+          id: 'luna',
+          relationships: { planet: { data: earth } }
+        })
+      )
+    );
+    assert.notOk(cachePolicy.has(earthMoons), 'inverse relationships');
+
+    await target.push(buildTransform(t.replaceKey(earth, 'remoteId', '3')));
+    assert.notOk(cachePolicy.has(earthQuery), 'records with a new key');
+  });
+
+  test('fails updates over the retry budget or the rate limit', async function(assert) {
+    strategy = new PessimisticStrategy({
+      source: 's1',
+      target: 's2',
+      retryBudget: { minRetries: 1, ratio: 0 },
+      rateLimiter: { capacity: 1, refillRate: 0.001 }
+    });
+
+    coordinator = new Coordinator({
+      sources: [s1, s2],
+      strategies: [strategy]
+    });
+
+    await coordinator.activate();
+
+    s2._push = async (): Promise<Transform[]> => [];
+
+    const beforeUpdate = (strategy as any).generateBeforeUpdateListener();
+    const updateFail = (strategy as any).generateUpdateFailListener();
+    const networkError: any = new NetworkError(':(');
+
+    await beforeUpdate(tA);
+    updateFail(tA, networkError);
+    assert.equal(strategy.retryPolicy.attempts(tA.id), 1, 'retried once');
+    assert.throws(
+      () => updateFail(tA, networkError),
+      RetryBudgetExceededError,
+      'retries over the budget fail'
+    );
+    assert.equal(strategy.retryPolicy.attempts(tA.id), 0, 'retry state reset');
+
+    let error: Error;
+    await beforeUpdate(tB).catch((e: Error) => (error = e));
+    assert.ok(error instanceof RateLimitExceededError, 'rate limit exceeded');
+    assert.throws(
+      () => updateFail(tB, error),
+      RateLimitExceededError,
+      'requests over the rate limit fail'
+    );
+  });
+
+  test('coalesces identical in-flight queries', async function(assert) {
+    strategy = new PessimisticStrategy({
+      source: 's1',
+      target: 's2'
+    });
+
+    coordinator = new Coordinator({
+      sources: [s1, s2],
+      strategies: [strategy]
+    });
+
+    await coordinator.activate();
+
+    let pulls = 0;
+    let fail: (e: Error) => void;
+    s2.pull = () => {
+      pulls++;
+      return new Promise((resolve, reject) => {
+        fail = reject;
+      });
+    };
+
+    const pull = (query: Query) => (strategy as any).pull(query);
+    const a = pull(
+      buildQuery(q => q.findRecords('planet'), undefined, undefined, qb)
+    );
+    const b = pull(
+      buildQuery(q => q.findRecords('planet'), undefined, undefined, qb)
+    );
+
+    assert.equal(pulls, 1, 'a single request is sent');
+
+    fail(new Error(':('));
+
+    await assert.rejects(a, /:\(/, 'first caller fails');
+    await assert.rejects(b, /:\(/, 'second caller fails');
+
+    pull(
+      buildQuery(q => q.findRecords('planet'), undefined, undefined, qb)
+    ).catch(() => {});
+    assert.equal(pulls, 2, 'settled queries are sent again');
+  });
+
+  test('pulls time out', async function(assert) {
+    strategy = new PessimisticStrategy({
+      source: 's1',
+      target: 's2',
+      timeout: 10000
+    });
+
+    coordinator = new Coordinator({
+      sources: [s1, s2],
+      strategies: [strategy]
+    });
+
+    await coordinator.activate();
+
+    s2.pull = () => new Promise(() => {});
+
+    const query = buildQuery(
+      q => q.findRecords('planet'),
+      { timeout: 10 },
+      undefined,
+      qb
+    );
+
+    await assert.rejects(
+      (strategy as any).pull(query),
+      RequestTimeoutError,
+      'query timeout overrides the strategy timeout'
+    );
+    assert.ok(
+      strategy.shouldRetryQuery(query, new RequestTimeoutError(10)),
+      'timeouts are retried by default'
+    );
+  });
+
+  test('pending requests can be cancelled', async function(assert) {
+    strategy = new PessimisticStrategy({
+      source: 's1',
+      target: 's2'
+    });
+
+    coordinator = new Coordinator({
+      sources: [s1, s2],
+      strategies: [strategy]
+    });
+
+    await coordinator.activate();
+
+    s2.pull = () => new Promise(() => {});
+
+    const query = buildQuery(
+      q => q.findRecords('planet'),
+      undefined,
+      undefined,
+      qb
+    );
+    const result = (strategy as any).pull(query);
+
+    strategy.cancel(query.id);
+
+    await assert.rejects(result, RequestCancelledError);
+  });
+
+  test('coalesced queries are sent until all callers cancel', async function(assert) {
+    strategy = new PessimisticStrategy({
+      source: 's1',
+      target: 's2',
+      scheduling: { concurrency: 1 }
+    });
+
+    coordinator = new Coordinator({
+      sources: [s1, s2],
+      strategies: [strategy]
+    });
+
+    await coordinator.activate();
+
+    const sent: string[] = [];
+    let free: () => void;
+    s2.pull = (query: Query): Promise<Transform[]> => {
+      sent.push(query.expressions[0].op);
+      return new Promise(resolve => {
+        free = () => resolve([]);
+      });
+    };
+
+    const pull = (query: Query) => (strategy as any).pull(query);
+    const findPlanets = () =>
+      buildQuery(q => q.findRecords('planet'), undefined, undefined, qb);
+    const busy = pull(
+      buildQuery(
+        q => q.findRecord({ type: 'planet', id: 'earth' }),
+        undefined,
+        undefined,
+        qb
+      )
+    );
+
+    const a = findPlanets();
+    const b = findPlanets();
+    const resultA = pull(a);
+    const resultB = pull(b);
+
+    strategy.cancel(a.id);
+    await assert.rejects(resultA, RequestCancelledError, 'first caller');
+
+    free();
+    await busy;
+    assert.deepEqual(sent, ['findRecord', 'findRecords'], 'request is sent');
+    free();
+    assert.deepEqual(await resultB, [], 'second caller settles');
+
+    const c = findPlanets();
+    const d = findPlanets();
+    const busyAgain = pull(
+      buildQuery(
+        q => q.findRecord({ type: 'planet', id: 'mars' }),
+        undefined,
+        undefined,
+        qb
+      )
+    );
+    const resultC = pull(c);
+    const resultD = pull(d);
+
+    strategy.cancel(d.id);
+    strategy.cancel(c.id);
+    await assert.rejects(resultC, RequestCancelledError);
+    await assert.rejects(resultD, RequestCancelledError);
+
+    free();
+    await busyAgain;
+    assert.equal(sent.length, 3, 'request is dropped');
+  });
+
+  test('batches background reloads but not blocking queries', async function(assert) {
+    strategy = new PessimisticStrategy({
+      source: 's1',
+      target: 's2',
+      batching: {}
+    });
+
+    coordinator = new Coordinator({
+      sources: [s1, s2],
+      strategies: [strategy]
+    });
+
+    await coordinator.activate();
+
+    const pulled: number[] = [];
+    s2.pull = async (query: Query): Promise<Transform[]> => {
+      pulled.push(query.expressions.length);
+      return [];
+    };
+
+    const findPlanet = (id: string) =>
+      buildQuery(
+        q => q.findRecord({ type: 'planet', id }),
+        undefined,
+        undefined,
+        qb
+      );
+    const listener = (strategy as any).generateBeforeQueryListener();
+
+    await strategy.cachePolicy.load(findPlanet('earth'));
+    await strategy.cachePolicy.load(findPlanet('mars'));
+
+    const blocking = listener(findPlanet('venus'));
+    assert.deepEqual(pulled, [1], 'blocking query is sent right away');
+    await blocking;
+
+    listener(findPlanet('earth'));
+    listener(findPlanet('mars'));
+    await new Promise(resolve => setTimeout(resolve, 10));
+
+    assert.deepEqual(pulled, [1, 2], 'background reloads are batched');
+  });
+
+  test('sends user queries before background work', async function(assert) {
+    strategy = new PessimisticStrategy({
+      source: 's1',
+      target: 's2',
+      scheduling: { concurrency: 1 }
+    });
+
+    coordinator = new Coordinator({
+      sources: [s1, s2],
+      strategies: [strategy]
+    });
+
+    await coordinator.activate();
+
+    const sent: string[] = [];
+    s2.pull = async (query: Query): Promise<Transform[]> => {
+      sent.push(query.expressions[0].op);
+      return [];
+    };
+
+    const pull = (query: Query, priority: string) =>
+      (strategy as any).pull(query, priority);
+    const earth = { type: 'planet', id: 'earth' };
+
+    await Promise.all([
+      pull(
+        buildQuery(q => q.findRecords('moon'), undefined, undefined, qb),
+        'background'
+      ),
+      pull(
+        buildQuery(
+          q => q.findRelatedRecords(earth, 'moons'),
+          undefined,
+          undefined,
+          qb
+        ),
+        'prefetch'
+      ),
+      pull(
+        buildQuery(q => q.findRecords('planet'), undefined, undefined, qb),
+        'background'
+      ),
+      pull(
+        buildQuery(q => q.findRecord(earth), undefined, undefined, qb),
+        'user'
+      )
+    ]);
+
+    assert.deepEqual(
+      sent,
+      ['findRecords', 'findRecord', 'findRecords', 'findRelatedRecords'],
+      'the user query is sent as soon as the target is free'
+    );
+  });
+
+  test('ignores unknown priority options', function(assert) {
+    strategy = new PessimisticStrategy({
+      source: 's1',
+      target: 's2'
+    });
+
+    const priority = (options: object, blocking: boolean) =>
+      (strategy as any).queryPriority(
+        buildQuery(q => q.findRecords('planet'), options, undefined, qb),
+        blocking
+      );
+
+    assert.equal(priority({ priority: 'prefetch' }, true), 'prefetch');
+    assert.equal(priority({ priority: 'urgent' }, true), 'user');
+    assert.equal(priority({ priority: 1 }, false), 'background');
+  });
+
+  test('reload rules block cached queries', async function(assert) {
+    strategy = new PessimisticStrategy({
+      source: 's1',
+      target: 's2',
+      reloadRules: { planet: { reload: true } }
+    });
+
+    coordinator = new Coordinator({
+      sources: [s1, s2],
+      strategies: [strategy]
+    });
+
+    await coordinator.activate();
+
+    s2.pull = async (): Promise<Transform[]> => [];
+
+    const planets = buildQuery(
+      q => q.findRecords('planet'),
+      undefined,
+      undefined,
+      qb
+    );
+    const moons = buildQuery(
+      q => q.findRecords('moon'),
+      undefined,
+      undefined,
+      qb
+    );
+    await strategy.cachePolicy.load(planets);
+    await strategy.cachePolicy.load(moons);
+
+    const listener = (strategy as any).generateBeforeQueryListener();
+
+    assert.ok(listener(planets), 'reloaded before answering the query');
+    assert.strictEqual(listener(moons), undefined, 'reloaded in background');
+    assert.strictEqual(
+      listener(
+        buildQuery(q => q.findRecords('moon'), { reload: true }, undefined, qb)
+      ),
+      undefined,
+      'the reload option still reloads cached queries in background'
+    );
+  });
+
+  test('revalidates expired queries with their validators', async function(assert) {
+    strategy = new PessimisticStrategy({
+      source: 's1',
+      target: 's2',
+      cachePolicy: { expireIn: 10 }
+    });
+
+    coordinator = new Coordinator({
+      sources: [s1, s2],
+      strategies: [strategy]
+    });
+
+    await coordinator.activate();
+
+    const query = buildQuery(
+      q => q.findRecords('planet'),
+      undefined,
+      undefined,
+      qb
+    );
+    const [expression] = query.expressions;
+    const validators = { etag: 'W/"1"' };
+
+    await strategy.cachePolicy.load(query, [
+      buildTransform([tA.operations[0]], { validators })
+    ]);
+    const loadedAt = strategy.cachePolicy.loadedAt(expression) as number;
+    await new Promise(resolve => setTimeout(resolve, 20));
+    assert.notOk(strategy.cachePolicy.has(query), 'expired');
+
+    s2.pull = async (pulled: Query) => {
+      assert.deepEqual(
+        pulled.options.validators,
+        validators,
+        'validators are sent'
+      );
+      return [buildTransform([], { notModified: true })];
+    };
+
+    await (strategy as any).generateBeforeQueryListener()(query);
+
+    assert.ok(
+      (strategy.cachePolicy.loadedAt(expression) as number) > loadedAt,
+      'load time is refreshed'
+    );
+  });
+
+  test('traces queries', async function(assert) {
+    const tracer = new InMemoryTracer();
+
+    strategy = new PessimisticStrategy({
+      source: 's1',
+      target: 's2',
+      tracer
+    });
+
+    coordinator = new Coordinator({
+      sources: [s1, s2],
+      strategies: [strategy]
+    });
+
+    await coordinator.activate();
+
+    s2.pull = async (): Promise<Transform[]> => [];
+
+    const query = buildQuery(
+      q => q.findRecords('planet'),
+      undefined,
+      undefined,
+      qb
+    );
+    await (strategy as any).generateBeforeQueryListener()(query);
+
+    const [span] = tracer.finishedSpans;
+
+    assert.equal(span.name, 'query');
+    assert.deepEqual(span.attributes, {
+      id: query.id,
+      cached: false,
+      stale: false,
+      reload: false,
+      backgroundReload: true,
+      blocking: true,
+      priority: 'user',
+      result: 'remote',
+      retries: 0
+    });
+    assert.equal(span.status, 'ok');
+  });
+
+  test('traces failed background reloads', async function(assert) {
+    const tracer = new InMemoryTracer();
+
+    strategy = new PessimisticStrategy({
+      source: 's1',
+      target: 's2',
+      tracer
+    });
+
+    coordinator = new Coordinator({
+      sources: [s1, s2],
+      strategies: [strategy]
+    });
+
+    await coordinator.activate();
+
+    s2.pull = async (): Promise<Transform[]> => {
+      throw new Error(':(');
+    };
+
+    const query = buildQuery(
+      q => q.findRecords('planet'),
+      undefined,
+      undefined,
+      qb
+    );
+    await strategy.cachePolicy.load(query);
+
+    assert.strictEqual(
+      (strategy as any).generateBeforeQueryListener()(query),
+      undefined,
+      'reloaded in background'
+    );
+    await new Promise(resolve => setTimeout(resolve, 0));
+
+    const [span] = tracer.spans;
+    assert.ok(span.ended, 'span is ended');
+    assert.equal(span.attributes.result, 'error');
+    assert.equal(span.status, 'error');
+  });
+
+  test('traces updates which succeed once retried', async function(assert) {
+    const tracer = new InMemoryTracer();
+
+    strategy = new PessimisticStrategy({
+      source: 's1',
+      target: 's2',
+      retryPolicy: { delay: 1 },
+      tracer
+    });
+
+    coordinator = new Coordinator({
+      sources: [s1, s2],
+      strategies: [strategy]
+    });
+
+    await coordinator.activate();
+
+    let attempts = 0;
+    s2._push = async (): Promise<Transform[]> => {
+      if (attempts++ === 0) {
+        throw new NetworkError(':(');
+      }
+      return [];
+    };
+
+    await assert.rejects(s1.update(tA), NetworkError);
+    assert.equal(tracer.finishedSpans.length, 0, 'span is open while retried');
+
+    await new Promise(resolve => setTimeout(resolve, 20));
+
+    const [span] = tracer.finishedSpans;
+    assert.equal(attempts, 2, 'update is retried');
+    assert.equal(span.name, 'update');
+    assert.equal(span.attributes.result, 'remote');
+    assert.equal(span.attributes.retries, 1);
+    assert.equal(span.status, 'ok');
+  });
+
   // test('with `passHints: true` and `blocking: true`, will pass `hints` that result from applying the target action', async function(assert) {
   //   assert.expect(5);
 
@@ -0,0 +1,47 @@
+import { InMemoryTracer, noopTracer } from '../src/index';
+
+const { module, test } = QUnit;
+
+module('tracing', function() {
+  test('`noopTracer` records nothing', function(assert) {
+    const span = noopTracer.startSpan('query', { id: 'a' });
+
+    span.setAttribute('cached', true);
+    span.addEvent('retry');
+    span.end();
+
+    assert.ok(span, 'spans can be used');
+  });
+
+  test('`InMemoryTracer` records spans', function(assert) {
+    const tracer = new InMemoryTracer();
+    const span = tracer.startSpan('query', { id: 'a' });
+
+    span.setAttribute('cached', false);
+    span.setAttributes({ blocking: true });
+    span.addEvent('retry', { attempt: 1 });
+
+    assert.deepEqual(tracer.spans, [span]);
+    assert.deepEqual(tracer.finishedSpans, [], 'span is still open');
+
+    const error = new Error(':(');
+    span.end('error', error);
+    span.end('ok');
+
+    assert.deepEqual(tracer.finishedSpans, [span]);
+    assert.deepEqual(span.attributes, {
+      id: 'a',
+      cached: false,
+      blocking: true
+    });
+    assert.deepEqual(
+      span.events.map(({ name, attributes }) => ({ name, attributes })),
+      [{ name: 'retry', attributes: { attempt: 1 } }]
+    );
+    assert.equal(span.status, 'error', 'first status is kept');
+    assert.strictEqual(span.error, error);
+
+    tracer.reset();
+    assert.deepEqual(tracer.spans, []);
+  });
+});